@@ -1,7 +1,15 @@
 import { log } from './utils.js';
+import { config } from './SnapOptions.js';
 import { UrlManager } from './UrlManager.js';
 import { SnapRecords } from './SnapRecords.js';
-import { CacheData, Identifiable, LogLevel } from './SnapTypes.js';
+import {
+    LogLevel,
+    CacheData,
+    Identifiable,
+    DataSourceResult,
+    ServerRequestParams,
+    CacheInvalidationFilter,
+} from './SnapTypes.js';
 
 /*========================================================================================================
 
@@ -10,13 +18,24 @@ import { CacheData, Identifiable, LogLevel } from './SnapTypes.js';
     Class responsible for managing data caching using IndexedDB
 
     Manages client-side data caching for SnapRecords using IndexedDB.
-    Handles cache invalidation, retrieval, storage, and preloading of paginated data,
+    Handles cache invalidation, retrieval, storage, and prefetching of paginated data,
     optimizing network usage and improving performance by reducing redundant API requests.
+    Prefetched pages are kept in a small in-memory buffer (and written to IndexedDB when caching
+    is enabled), so the next load of a prefetched URL uses it even while its request is pending.
+    Keeps the database bounded: the oldest entries (by timestamp) are evicted beyond the
+    `cacheMaxEntries`/`cacheMaxBytes` limits, long-expired entries are purged periodically, and
+    a write that exceeds the storage quota prunes the oldest half of the cache and is retried once.
 
     @typeParam T - The data type managed by the cache, extending Identifiable and a generic record.
 
 ==========================================================================================================*/
 
+// Prefetched page held in memory, with the time its request started
+type PrefetchEntry<T extends Identifiable & Record<string, unknown>> = {
+    result: Promise<DataSourceResult<T>>;
+    timestamp: number;
+};
+
 export class CacheManager<T extends Identifiable & Record<string, unknown>> {
     // Reference to the parent SnapRecords instance
     #parent: SnapRecords<T>;
@@ -24,6 +43,10 @@ export class CacheManager<T extends Identifiable & Record<string, unknown>> {
     #urlManager: UrlManager<T>;
     // Add timeout for cache operations
     readonly #CACHE_TIMEOUT_MS = 5000;
+    // Timer of the periodic purge of expired entries
+    #purgeTimer: ReturnType<typeof setInterval> | null = null;
+    // Prefetched pages by URL, in insertion order, so prefetching also works without IndexedDB
+    #prefetchBuffer = new Map<string, PrefetchEntry<T>>();
 
     // Constructor initializes the cache manager with parent and URL manager
     constructor(parent: SnapRecords<T>, urlManager: UrlManager<T>) {
@@ -31,21 +54,26 @@ export class CacheManager<T extends Identifiable & Record<string, unknown>> {
         this.#urlManager = urlManager;
     }
 
-    #isValidCache(data: CacheData<T>): boolean {
+    #isValidCache(data: CacheData<T>, allowStale: boolean): boolean {
         return (
             typeof data.timestamp === 'number' &&
             Array.isArray(data.data) &&
             typeof data.totalRecords === 'number' &&
-            data.timestamp > Date.now() - this.#parent.cacheExpiry
+            (allowStale || data.timestamp > Date.now() - this.#parent.cacheExpiry)
         );
     }
 
     // Invalidates the cache if filters have changed
-    public invalidateCache(): void {
+    public invalidateOnFilterChange(): void {
         // Skip if caching is disabled
         if (!this.#parent.useCache) return;
         // Hash current filters for comparison
         const filterHash = JSON.stringify(this.#parent.state.filters);
+        // The first load only records the filters, so cached pages survive a page reload
+        if (!this.#parent.lastFilterHash) {
+            this.#parent.lastFilterHash = filterHash;
+            return;
+        }
         if (filterHash !== this.#parent.lastFilterHash) {
             // Clear cache if filters have changed
             this.#parent.db.cache.clear();
@@ -54,73 +82,179 @@ export class CacheManager<T extends Identifiable & Record<string, unknown>> {
         }
     }
 
-    // Preloads data for the next page if enabled
+    // Deletes the cached pages matching the filter (all of them without one), returning their number
+    public async invalidateCache(filter?: CacheInvalidationFilter<T>): Promise<number> {
+        // Prefetched pages are not tagged, so any invalidation drops them all
+        this.clearPrefetched();
+        try {
+            const table = this.#parent.db.cache;
+            let count: number;
+            if (!filter) {
+                count = await table.count();
+                await table.clear();
+            } else {
+                const matches =
+                    typeof filter === 'function'
+                        ? filter
+                        : (entry: CacheData<T>) => this.#matchesFilter(entry, filter);
+                count = await table.filter(matches).delete();
+            }
+            log(this.#parent.debug, LogLevel.INFO, `Invalidated ${count} cached page(s).`);
+            return count;
+        } catch (error: unknown) {
+            log(this.#parent.debug, LogLevel.ERROR, 'Error invalidating cache:', { error });
+            return 0;
+        }
+    }
+
+    // Checks a cached entry against every condition of an invalidation filter
+    #matchesFilter(
+        entry: CacheData<T>,
+        filter: Exclude<CacheInvalidationFilter<T>, (entry: CacheData<T>) => boolean>
+    ): boolean {
+        const { urlPrefix, rowId, tags } = filter;
+        if (urlPrefix !== undefined && !entry.url.startsWith(urlPrefix)) return false;
+        // Ids are compared as strings, as they are in data-key attributes
+        if (rowId !== undefined && !entry.data.some((row) => String(row.id) === String(rowId))) {
+            return false;
+        }
+        if (tags !== undefined && !tags.some((tag) => entry.tags?.includes(tag))) return false;
+        return true;
+    }
+
+    // Returns the tags of a cached page for the given request parameters
+    public getCacheTags(params: ServerRequestParams): string[] | undefined {
+        return this.#parent.cacheTags?.(params);
+    }
+
+    // Prefetches the configured number of pages after and before the current one
+    public prefetchPages(): void {
+        const prefetch = this.#parent.prefetch;
+        if (!prefetch) return;
+        const { currentPage } = this.#parent.state;
+        // Appending modes already display every page before the current one
+        const behind = this.#parent.paginationMode === 'pages' ? prefetch.behind : 0;
+        for (let offset = 1; offset <= Math.max(prefetch.ahead, behind); offset++) {
+            if (offset <= prefetch.ahead) this.prefetchPage(currentPage + offset);
+            if (offset <= behind) this.prefetchPage(currentPage - offset);
+        }
+    }
+
+    // Deprecated: use `prefetchPages`. Prefetches the page after the current one
     public async preloadNextPage(): Promise<void> {
-        // Skip if preloading is disabled
-        if (!this.#parent.preloadNextPageEnabled) return;
+        await this.prefetchPage(this.#parent.state.currentPage + 1);
+    }
 
-        // Check network conditions to avoid preloading on slow connections
-        const conn = (
-            navigator as {
-                connection?: { saveData?: boolean; effectiveType?: string };
-            }
-        ).connection;
-        if (
-            conn &&
-            (conn.saveData || conn.effectiveType === 'slow-2g' || conn.effectiveType === '2g')
-        ) {
+    // Prefetches a single page into the in-memory buffer and, when enabled, the cache
+    public async prefetchPage(page: number): Promise<void> {
+        if (!this.#parent.prefetch || !this.#canPrefetchPage(page)) return;
+        if (this.#isSlowConnection()) {
             log(
                 this.#parent.debug,
                 LogLevel.INFO,
-                'Preloading skipped due to slow connection or data saver mode.'
+                'Prefetching skipped due to slow connection or data saver mode.'
             );
             return;
         }
 
-        // Calculate next page number
-        const nextPage = this.#parent.state.currentPage + 1;
-        const totalPages = Math.ceil(
-            this.#parent.state.totalRecords / this.#parent.state.rowsPerPage
-        );
-        // Skip if next page exceeds total pages
-        if (nextPage > totalPages) return;
-
-        // Build URL for next page
-        const params = this.#urlManager.getServerParams(nextPage);
+        // Build URL for the page
+        const params = this.#urlManager.getServerParams(page);
         const url = this.#urlManager.buildUrl(params);
+        if (this.#getPrefetched(url)) return;
 
         // Check cache if enabled
         if (this.#parent.useCache) {
             const cached = await this.getCachedData(url);
-            if (cached && Date.now() - cached.timestamp < this.#parent.cacheExpiry) {
+            if (cached) {
                 log(
                     this.#parent.debug,
                     LogLevel.INFO,
-                    'Preload not needed, next page is already cached and valid.'
+                    `Prefetch not needed, page ${page} is already cached and valid.`
                 );
                 return;
             }
+            // The page may have been prefetched while the cache was read
+            if (this.#getPrefetched(url)) return;
         }
 
+        // Load the page through the configured data source, buffering the pending result
+        log(this.#parent.debug, LogLevel.INFO, `Prefetching data for page ${page}:`, url);
+        const result = this.#parent.dataSource.load(params);
+        this.#bufferPrefetched(url, result);
         try {
-            // Fetch data for the next page
-            log(this.#parent.debug, LogLevel.INFO, 'Preloading data for next page:', url);
-            const response = await fetch(url);
-            if (response.ok) {
-                const data: { data: T[]; totalRecords: number } = await response.json();
-                if (this.#parent.useCache) {
-                    // Cache the fetched data
-                    await this.cacheData(url, {
-                        url,
-                        data: data.data || [],
-                        totalRecords: data.totalRecords || 0,
-                        timestamp: Date.now(),
-                    });
-                }
+            const data = await result;
+            if (this.#parent.useCache) {
+                // Cache the loaded data
+                await this.cacheData(url, {
+                    url,
+                    data: data.data || [],
+                    totalRecords: data.totalRecords || 0,
+                    timestamp: Date.now(),
+                    nextCursor: data.nextCursor,
+                    prevCursor: data.prevCursor,
+                    totalRecordsKnown: typeof data.totalRecords === 'number',
+                    etag: data.etag,
+                    lastModified: data.lastModified,
+                    tags: this.getCacheTags(params),
+                });
             }
         } catch (error: unknown) {
-            // Log preload failure
-            log(this.#parent.debug, LogLevel.LOG, 'Preload failed:', { error, url });
+            // Drop the failed page so its load goes to the data source
+            if (this.#prefetchBuffer.get(url)?.result === result) this.#prefetchBuffer.delete(url);
+            log(this.#parent.debug, LogLevel.LOG, 'Prefetch failed:', { error, url });
+        }
+    }
+
+    // Removes and returns the prefetched result for a URL, if one is still fresh
+    public takePrefetched(url: string): Promise<DataSourceResult<T>> | undefined {
+        const entry = this.#getPrefetched(url);
+        this.#prefetchBuffer.delete(url);
+        return entry?.result;
+    }
+
+    // Discards every prefetched page
+    public clearPrefetched(): void {
+        this.#prefetchBuffer.clear();
+    }
+
+    // Checks whether a page exists and is not the current one
+    #canPrefetchPage(page: number): boolean {
+        const { currentPage, totalRecords, rowsPerPage, cursors } = this.#parent.state;
+        if (page < 1 || page === currentPage) return false;
+        // Cursor pages can only be requested once a neighbouring page returned their cursor
+        if (this.#parent.cursorPagination) return page === 1 || Boolean(cursors[page - 1]);
+        return page <= Math.ceil(totalRecords / rowsPerPage);
+    }
+
+    // Checks network conditions to avoid prefetching on slow connections
+    #isSlowConnection(): boolean {
+        const conn = (
+            navigator as {
+                connection?: { saveData?: boolean; effectiveType?: string };
+            }
+        ).connection;
+        return Boolean(
+            conn &&
+                (conn.saveData || conn.effectiveType === 'slow-2g' || conn.effectiveType === '2g')
+        );
+    }
+
+    // Returns the buffered entry for a URL, dropping it once older than the cache expiry
+    #getPrefetched(url: string): PrefetchEntry<T> | undefined {
+        const entry = this.#prefetchBuffer.get(url);
+        if (entry && Date.now() - entry.timestamp >= this.#parent.cacheExpiry) {
+            this.#prefetchBuffer.delete(url);
+            return undefined;
+        }
+        return entry;
+    }
+
+    // Buffers a prefetched result, dropping the oldest entries beyond the buffer size
+    #bufferPrefetched(url: string, result: Promise<DataSourceResult<T>>): void {
+        this.#prefetchBuffer.delete(url);
+        this.#prefetchBuffer.set(url, { result, timestamp: Date.now() });
+        while (this.#prefetchBuffer.size > config.constants.prefetchBufferSize) {
+            this.#prefetchBuffer.delete(this.#prefetchBuffer.keys().next().value as string);
         }
     }
 
@@ -128,18 +262,102 @@ export class CacheManager<T extends Identifiable & Record<string, unknown>> {
     public async cacheData(url: string, data: CacheData<T>): Promise<void> {
         // Skip if caching is disabled
         if (!this.#parent.useCache) return;
+        const entry: CacheData<T> = { ...data, size: JSON.stringify(data.data).length };
         try {
             // Store data in IndexedDB
-            await this.#parent.db.cache.put(data);
+            await this.#putWithQuotaRecovery(entry);
             log(this.#parent.debug, LogLevel.INFO, 'Data cached successfully for URL:', url);
+            await this.#evictOverLimits();
         } catch (error: unknown) {
             // Log error if caching fails
             log(this.#parent.debug, LogLevel.ERROR, 'Error caching data:', { error, url });
         }
     }
 
-    // Retrieves cached data for a given URL
-    public async getCachedData(url: string): Promise<CacheData<T> | undefined> {
+    // Stores an entry, pruning the oldest half of the cache and retrying once if the quota is full
+    async #putWithQuotaRecovery(entry: CacheData<T>): Promise<void> {
+        const table = this.#parent.db.cache;
+        try {
+            await table.put(entry);
+        } catch (error: unknown) {
+            if (!this.#isQuotaError(error)) throw error;
+            log(this.#parent.debug, LogLevel.WARN, 'Storage quota exceeded, pruning the cache.');
+            await this.purgeExpired();
+            const urls = await table.orderBy('timestamp').primaryKeys();
+            await table.bulkDelete(urls.slice(0, Math.ceil(urls.length / 2)));
+            await table.put(entry);
+        }
+    }
+
+    // Checks whether an error (or the native error wrapped by Dexie) is a quota error
+    #isQuotaError(error: unknown): boolean {
+        const { name, inner } = (error ?? {}) as { name?: string; inner?: { name?: string } };
+        return name === 'QuotaExceededError' || inner?.name === 'QuotaExceededError';
+    }
+
+    // Evicts the oldest entries beyond the cacheMaxEntries and cacheMaxBytes limits
+    async #evictOverLimits(): Promise<void> {
+        const { cacheMaxEntries, cacheMaxBytes } = this.#parent;
+        if (!cacheMaxEntries && !cacheMaxBytes) return;
+        const table = this.#parent.db.cache;
+        const evicted: string[] = [];
+        let count = 0;
+        let bytes = 0;
+        // Walk from the newest entry, keeping entries while both limits hold
+        await table
+            .orderBy('timestamp')
+            .reverse()
+            .each((entry) => {
+                count += 1;
+                bytes += entry.size ?? JSON.stringify(entry.data).length;
+                if (
+                    (cacheMaxEntries && count > cacheMaxEntries) ||
+                    (cacheMaxBytes && bytes > cacheMaxBytes)
+                ) {
+                    evicted.push(entry.url);
+                }
+            });
+        if (evicted.length === 0) return;
+        await table.bulkDelete(evicted);
+        log(this.#parent.debug, LogLevel.INFO, `Evicted ${evicted.length} cached page(s).`);
+    }
+
+    // Deletes entries expired for longer than the offline retention period, returning their number
+    public async purgeExpired(): Promise<number> {
+        const cutoff = Date.now() - this.#parent.cacheExpiry - config.constants.cacheStaleRetention;
+        try {
+            const count = await this.#parent.db.cache.where('timestamp').below(cutoff).delete();
+            if (count > 0) {
+                log(this.#parent.debug, LogLevel.INFO, `Purged ${count} expired cached page(s).`);
+            }
+            return count;
+        } catch (error: unknown) {
+            log(this.#parent.debug, LogLevel.ERROR, 'Error purging expired cache:', { error });
+            return 0;
+        }
+    }
+
+    // Purges expired entries now and then periodically, when caching is enabled
+    public startMaintenance(): void {
+        if (!this.#parent.useCache || this.#purgeTimer !== null) return;
+        this.purgeExpired();
+        this.#purgeTimer = setInterval(
+            () => this.purgeExpired(),
+            config.constants.cachePurgeInterval
+        );
+    }
+
+    // Stops the periodic purge
+    public stopMaintenance(): void {
+        if (this.#purgeTimer !== null) clearInterval(this.#purgeTimer);
+        this.#purgeTimer = null;
+    }
+
+    // Retrieves cached data for a given URL, including expired entries when allowStale is set
+    public async getCachedData(
+        url: string,
+        allowStale: boolean = false
+    ): Promise<CacheData<T> | undefined> {
         // Skip if caching is disabled
         if (!this.#parent.useCache) return undefined;
         try {
@@ -151,7 +369,7 @@ export class CacheManager<T extends Identifiable & Record<string, unknown>> {
                 ),
             ])) as CacheData<T> | undefined;
 
-            if (cached && this.#isValidCache(cached)) {
+            if (cached && this.#isValidCache(cached, allowStale)) {
                 return cached;
             }
             return undefined;
@@ -1,13 +1,18 @@
 import {
     LogLevel,
     RowsPerPage,
+    ColumnDef,
+    ColumnGroup,
     Identifiable,
     LifecycleHooks,
+    CacheStrategy,
+    PaginationMode,
     SnapRecordsOptions,
     SnapRecordsConfigError,
 } from './SnapTypes.js';
 import { log } from './utils.js';
 import { defaultOptions } from './SnapOptions.js';
+import { queryDialects } from './QueryDialects.js';
 
 /*========================================================================================================
 
@@ -19,6 +24,9 @@ import { defaultOptions } from './SnapOptions.js';
     Ensures that user-provided options are combined with defaults, and validates all critical configuration
     aspects such as URL, columns, rows per page, column formatters, and lifecycle hooks. Provides warnings
     for non-critical issues and throws errors for invalid or missing mandatory options.
+    Columns are described by `columnDefs`; the older `columns`, `columnTitles`, `headerCellClasses`
+    and `columnFormatters` options are turned into equivalent definitions by `getColumnDefs`.
+    Column groups are resolved by `getColumnGroupPaths` into the chain of groups above each column.
 
     @typeParam T - The record type, which must extend Identifiable and be an object.
 
@@ -47,7 +55,18 @@ export class Configuration<T extends Identifiable & Record<string, unknown>> {
     // Validates all configuration options
     private validate(): void {
         this.validateUrl();
+        this.validateDataSource();
+        this.validateRequest();
+        this.validateQueryDialect();
+        this.validatePaginationMode();
+        this.validateCacheOptions();
+        this.validateVirtualization();
+        this.validateRetryPolicy();
+        this.validateLiveUpdates();
+        this.validateAutoRefresh();
+        this.validatePrefetch();
         this.validateColumns();
+        this.validateColumnGroups();
         this.validateRowsPerPage();
         this.validateFormatters();
         this.validateLifecycleHooks();
@@ -70,6 +89,8 @@ export class Configuration<T extends Identifiable & Record<string, unknown>> {
 
     // Validates the URL option
     private validateUrl(): void {
+        // Custom data sources and local records do not need a URL
+        if ((this.options.dataSource || this.options.data) && !this.options.url) return;
         // Ensure URL is provided and is a string
         if (!this.options.url || typeof this.options.url !== 'string') {
             throw new SnapRecordsConfigError('URL option is mandatory and must be a string.');
@@ -82,6 +103,163 @@ export class Configuration<T extends Identifiable & Record<string, unknown>> {
         }
     }
 
+    // Validates the data source, local data and response adapter options
+    private validateDataSource(): void {
+        if (this.options.dataSource && typeof this.options.dataSource.load !== 'function') {
+            throw new SnapRecordsConfigError('dataSource option must implement a load() method.');
+        }
+        if (this.options.data !== undefined && !Array.isArray(this.options.data)) {
+            throw new SnapRecordsConfigError('data option must be an array of records.');
+        }
+        if (
+            this.options.responseAdapter !== undefined &&
+            typeof this.options.responseAdapter !== 'function'
+        ) {
+            throw new SnapRecordsConfigError('responseAdapter option must be a function.');
+        }
+        if (this.options.data && this.options.dataSource) {
+            this.logger(LogLevel.WARN, 'Both data and dataSource were provided; data is ignored.');
+        }
+    }
+
+    // Validates the HTTP request options
+    private validateRequest(): void {
+        const request = this.options.request;
+        if (!request) return;
+        // Check each callback to ensure it's a function
+        (['getAuthToken', 'serializeBody'] as const).forEach((key) => {
+            if (request[key] !== undefined && typeof request[key] !== 'function') {
+                this.logger(LogLevel.WARN, `request.${key} is not a function.`);
+            }
+        });
+    }
+
+    // Validates the query dialect and custom query serializer options
+    private validateQueryDialect(): void {
+        const { queryDialect, querySerializer } = this.options;
+        if (queryDialect !== undefined && !Object.keys(queryDialects).includes(queryDialect)) {
+            throw new SnapRecordsConfigError(
+                `Unknown queryDialect '${queryDialect}'. Supported: ${Object.keys(queryDialects).join(', ')}.`
+            );
+        }
+        if (querySerializer !== undefined && typeof querySerializer !== 'function') {
+            throw new SnapRecordsConfigError('querySerializer option must be a function.');
+        }
+    }
+
+    // Validates the cache strategy, tags, scope, version and limit options
+    private validateCacheOptions(): void {
+        const { cacheStrategy, cacheTags, cacheScope, cacheVersion } = this.options;
+        if (cacheScope !== undefined && typeof cacheScope !== 'string') {
+            throw new SnapRecordsConfigError('cacheScope option must be a string.');
+        }
+        if (cacheVersion !== undefined && !['string', 'number'].includes(typeof cacheVersion)) {
+            throw new SnapRecordsConfigError('cacheVersion option must be a string or a number.');
+        }
+        if (cacheTags !== undefined && typeof cacheTags !== 'function') {
+            throw new SnapRecordsConfigError('cacheTags option must be a function.');
+        }
+        (['cacheMaxEntries', 'cacheMaxBytes'] as const).forEach((key) => {
+            const value = this.options[key];
+            if (value !== undefined && !(Number.isInteger(value) && (value as number) > 0)) {
+                throw new SnapRecordsConfigError(`${key} must be a positive integer.`);
+            }
+        });
+        const strategies: CacheStrategy[] = [
+            'cache-first',
+            'network-first',
+            'stale-while-revalidate',
+        ];
+        if (cacheStrategy !== undefined && !strategies.includes(cacheStrategy)) {
+            throw new SnapRecordsConfigError(
+                `Unknown cacheStrategy '${cacheStrategy}'. Supported: ${strategies.join(', ')}.`
+            );
+        }
+    }
+
+    // Validates the pagination mode option
+    private validatePaginationMode(): void {
+        const { paginationMode } = this.options;
+        const modes: PaginationMode[] = ['pages', 'loadMore', 'infinite'];
+        if (paginationMode !== undefined && !modes.includes(paginationMode)) {
+            throw new SnapRecordsConfigError(
+                `Unknown paginationMode '${paginationMode}'. Supported: ${modes.join(', ')}.`
+            );
+        }
+    }
+
+    // Validates the virtualization sizes, which must be positive to compute the window
+    private validateVirtualization(): void {
+        const { virtualization } = this.options;
+        if (typeof virtualization !== 'object' || virtualization === null) return;
+        (['itemHeight', 'height'] as const).forEach((key) => {
+            const value = virtualization[key];
+            if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+                throw new SnapRecordsConfigError(
+                    `virtualization.${key} must be a positive number of pixels.`
+                );
+            }
+        });
+    }
+
+    // Validates the retry policy statuses and delays
+    private validateRetryPolicy(): void {
+        const { retryPolicy } = this.options;
+        if (!retryPolicy) return;
+        if (retryPolicy.statuses !== undefined && !Array.isArray(retryPolicy.statuses)) {
+            throw new SnapRecordsConfigError(
+                'retryPolicy.statuses must be an array of HTTP statuses.'
+            );
+        }
+        (['attempts', 'baseDelayMs', 'maxDelayMs'] as const).forEach((key) => {
+            const value = retryPolicy[key];
+            if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+                throw new SnapRecordsConfigError(
+                    `retryPolicy.${key} must be a non-negative number.`
+                );
+            }
+        });
+    }
+
+    // Validates the live updates endpoint and transport
+    private validateLiveUpdates(): void {
+        const { liveUpdates } = this.options;
+        if (!liveUpdates) return;
+        if (typeof liveUpdates.url !== 'string' || liveUpdates.url === '') {
+            throw new SnapRecordsConfigError('liveUpdates.url must be a non-empty string.');
+        }
+        if (liveUpdates.transport && !['sse', 'websocket'].includes(liveUpdates.transport)) {
+            throw new SnapRecordsConfigError(
+                `Unknown liveUpdates.transport '${liveUpdates.transport}'. Supported: sse, websocket.`
+            );
+        }
+    }
+
+    // Validates the auto-refresh interval, which must be positive to schedule polls
+    private validateAutoRefresh(): void {
+        const { autoRefresh } = this.options;
+        if (!autoRefresh) return;
+        if (!(typeof autoRefresh.intervalMs === 'number' && autoRefresh.intervalMs > 0)) {
+            throw new SnapRecordsConfigError(
+                'autoRefresh.intervalMs must be a positive number of milliseconds.'
+            );
+        }
+    }
+
+    // Validates the prefetch page counts, which must be non-negative integers
+    private validatePrefetch(): void {
+        const { prefetch } = this.options;
+        if (typeof prefetch !== 'object' || prefetch === null) return;
+        (['ahead', 'behind'] as const).forEach((key) => {
+            const value = prefetch[key];
+            if (value !== undefined && !(Number.isInteger(value) && (value as number) >= 0)) {
+                throw new SnapRecordsConfigError(
+                    `prefetch.${key} must be a non-negative integer number of pages.`
+                );
+            }
+        });
+    }
+
     // Validates column formatters
     private validateFormatters(): void {
         if (this.options.columnFormatters) {
@@ -99,17 +277,24 @@ export class Configuration<T extends Identifiable & Record<string, unknown>> {
 
     // Validates the columns option
     private validateColumns(): void {
+        if (this.options.columnDefs !== undefined) {
+            this.validateColumnDefs(this.options.columnDefs);
+            return;
+        }
         // Ensure columns is a non-empty array
         if (
             !this.options.columns ||
             !Array.isArray(this.options.columns) ||
             this.options.columns.length === 0
         ) {
-            throw new SnapRecordsConfigError('Columns option must be a non-empty array.');
+            throw new SnapRecordsConfigError(
+                'Columns option must be a non-empty array (or provide columnDefs).'
+            );
         }
         // Warn if column titles length doesn't match columns length
         if (
             this.options.columnTitles &&
+            this.options.columnTitles.length > 0 &&
             this.options.columns.length !== this.options.columnTitles.length
         ) {
             this.logger(
@@ -119,6 +304,129 @@ export class Configuration<T extends Identifiable & Record<string, unknown>> {
         }
     }
 
+    // Validates the column definitions: unique keys, field paths, widths, alignment and pinned side
+    private validateColumnDefs(columnDefs: unknown): void {
+        if (!Array.isArray(columnDefs) || columnDefs.length === 0) {
+            throw new SnapRecordsConfigError('columnDefs option must be a non-empty array.');
+        }
+        const keys = new Set<string>();
+        (columnDefs as ColumnDef<T>[]).forEach((def) => {
+            if (typeof def?.key !== 'string' || def.key === '') {
+                throw new SnapRecordsConfigError('Every column definition needs a non-empty key.');
+            }
+            if (keys.has(def.key)) {
+                throw new SnapRecordsConfigError(`Duplicate column key '${def.key}'.`);
+            }
+            keys.add(def.key);
+            (['width', 'minWidth', 'maxWidth'] as const).forEach((name) => {
+                const value = def[name];
+                if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+                    throw new SnapRecordsConfigError(
+                        `Column '${def.key}' ${name} must be a positive number of pixels.`
+                    );
+                }
+            });
+            if (def.align !== undefined && !['left', 'center', 'right'].includes(def.align)) {
+                throw new SnapRecordsConfigError(
+                    `Unknown align '${def.align}' for column '${def.key}'. Supported: left, center, right.`
+                );
+            }
+            if (def.pinned !== undefined && !['left', 'right'].includes(def.pinned)) {
+                throw new SnapRecordsConfigError(
+                    `Unknown pinned side '${def.pinned}' for column '${def.key}'. Supported: left, right.`
+                );
+            }
+            if (def.field !== undefined && (typeof def.field !== 'string' || def.field === '')) {
+                throw new SnapRecordsConfigError(
+                    `Column '${def.key}' field must be a non-empty path, such as 'author.name'.`
+                );
+            }
+            if (def.valueGetter !== undefined && typeof def.valueGetter !== 'function') {
+                throw new SnapRecordsConfigError(
+                    `valueGetter for column '${def.key}' must be a function.`
+                );
+            }
+            if (def.formatter !== undefined && typeof def.formatter !== 'function') {
+                this.logger(LogLevel.WARN, `formatter for column '${def.key}' is not a function.`);
+            }
+        });
+    }
+
+    // Returns the column definitions, building them from the shorthand arrays when not provided
+    public getColumnDefs(): ColumnDef<T>[] {
+        const { columnDefs, columns, columnTitles, headerCellClasses, columnFormatters } =
+            this.options;
+        const defs: ColumnDef<T>[] =
+            columnDefs ??
+            (columns ?? []).map((key, index) => ({
+                key,
+                title: columnTitles?.[index],
+                headerClass: headerCellClasses?.[index] || undefined,
+            }));
+        return defs.map((def) => ({
+            ...def,
+            title: def.title ?? def.key,
+            // The 'no-sorting' header class predates the sortable setting
+            sortable: def.sortable ?? !def.headerClass?.includes('no-sorting'),
+            formatter: def.formatter ?? columnFormatters?.[def.key],
+        }));
+    }
+
+    // Validates the column groups: titled groups whose children are known, ungrouped columns
+    private validateColumnGroups(): void {
+        const { columnGroups } = this.options;
+        if (columnGroups === undefined) return;
+        if (!Array.isArray(columnGroups)) {
+            throw new SnapRecordsConfigError('columnGroups option must be an array of groups.');
+        }
+        const keys = new Set(this.getColumnDefs().map((def) => def.key));
+        const grouped = new Set<string>();
+        const validateGroup = (group: ColumnGroup): void => {
+            if (typeof group?.title !== 'string') {
+                throw new SnapRecordsConfigError('Every column group needs a title.');
+            }
+            if (!Array.isArray(group.children) || group.children.length === 0) {
+                throw new SnapRecordsConfigError(
+                    `Column group '${group.title}' needs at least one child.`
+                );
+            }
+            group.children.forEach((child) => {
+                if (typeof child !== 'string') {
+                    validateGroup(child);
+                    return;
+                }
+                if (!keys.has(child)) {
+                    throw new SnapRecordsConfigError(
+                        `Column group '${group.title}' refers to unknown column '${child}'.`
+                    );
+                }
+                if (grouped.has(child)) {
+                    throw new SnapRecordsConfigError(
+                        `Column '${child}' belongs to more than one column group.`
+                    );
+                }
+                grouped.add(child);
+            });
+        };
+        columnGroups.forEach(validateGroup);
+    }
+
+    // Returns the groups above each grouped column, outermost first, in group definition order
+    public getColumnGroupPaths(): Map<string, ColumnGroup[]> {
+        const paths = new Map<string, ColumnGroup[]>();
+        const visit = (group: ColumnGroup, path: ColumnGroup[]): void => {
+            group.children.forEach((child) => {
+                if (typeof child === 'string') {
+                    paths.set(child, [...path, group]);
+                } else {
+                    visit(child, [...path, group]);
+                }
+            });
+        };
+        (this.options.columnGroups ?? []).forEach((group) => visit(group, []));
+        return paths;
+    }
+
     // Validates the rowsPerPage option
     private validateRowsPerPage(): void {
         const rpp = this.options.rowsPerPage ?? RowsPerPage.DEFAULT;
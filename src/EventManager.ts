@@ -22,6 +22,7 @@ import defaultTranslations from './lang/en_US.json';
 
     The `EventManager` class centralizes all event handling logic for the SnapRecords table UI, including:
     - Delegated click handling for sorting, pagination, and row selection.
+    - Prefetching of the page under the pointer in the pagination footer.
     - Keyboard navigation and accessibility support.
     - Column resizing and drag-and-drop reordering.
     - State synchronization and UI updates in response to user actions.
@@ -46,6 +47,8 @@ export class EventManager<T extends Identifiable & Record<string, unknown>>
     #startX: number = 0;
     // Starting width of the column being resized
     #startWidth: number = 0;
+    // Observer loading more records when the infinite scroll sentinel becomes visible
+    #infiniteObserver: IntersectionObserver | null = null;
 
     // Constructor initializes the event manager with parent, renderer, and callbacks
     constructor(
@@ -61,9 +64,12 @@ export class EventManager<T extends Identifiable & Record<string, unknown>>
     // Sets up all event handlers for user interactions
     public setupAllHandlers(): void {
         this.#setupDelegatedClickHandler();
+        this.#setupPrefetchOnHover();
+        this.#setupColumnChooser();
         this.#setupColumnResizing();
         this.#setupColumnDragging();
         this.#setupKeyboardNavigation();
+        this.#setupInfiniteScroll();
     }
 
     // Removes all event listeners and cleans up
@@ -75,6 +81,10 @@ export class EventManager<T extends Identifiable & Record<string, unknown>>
         );
         // Remove click handler
         this.#parent.container.removeEventListener('click', this.#handleDelegatedClick);
+        // Remove column chooser handler
+        this.#parent.container.removeEventListener('change', this.#handleColumnToggle);
+        // Remove pagination hover handler
+        this.#parent.container.removeEventListener('mouseover', this.#handlePaginationHover);
         // Remove keyboard handler
         this.#parent.container.removeEventListener('keydown', this.#handleKeyDown);
         // Remove resize handlers
@@ -87,6 +97,27 @@ export class EventManager<T extends Identifiable & Record<string, unknown>>
         // Remove document-level resize handlers
         document.removeEventListener('mouseup', this.#stopResize);
         document.removeEventListener('mousemove', this.#handleResize);
+        // Stop observing the infinite scroll sentinel
+        this.#infiniteObserver?.disconnect();
+        this.#infiniteObserver = null;
+    }
+
+    // Observes the infinite scroll sentinel rendered below the records
+    #setupInfiniteScroll(): void {
+        // The footer is rebuilt on every render, so the previous sentinel is gone
+        this.#infiniteObserver?.disconnect();
+        this.#infiniteObserver = null;
+        const sentinel = this.#parent.container.querySelector(
+            `.${config.classes.infiniteSentinel}`
+        );
+        if (!sentinel) return;
+        this.#infiniteObserver = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) {
+                log(this.#parent.debug, LogLevel.INFO, 'Infinite scroll sentinel reached.');
+                this.#parent.loadMore();
+            }
+        });
+        this.#infiniteObserver.observe(sentinel);
     }
 
     // Sets up a delegated click handler for the container
@@ -97,6 +128,29 @@ export class EventManager<T extends Identifiable & Record<string, unknown>>
         this.#parent.container.addEventListener('click', this.#handleDelegatedClick);
     }
 
+    // Sets up the handler of the column chooser checkboxes
+    #setupColumnChooser(): void {
+        this.#parent.container.removeEventListener('change', this.#handleColumnToggle);
+        if (!this.#parent.columnChooser) return;
+        this.#parent.container.addEventListener('change', this.#handleColumnToggle);
+    }
+
+    // Shows or hides the column of a toggled chooser checkbox
+    #handleColumnToggle = (event: Event): void => {
+        const checkbox = (event.target as HTMLElement).closest<HTMLInputElement>(
+            `.${config.classes.columnChooser} input[type="checkbox"]`
+        );
+        if (!checkbox?.dataset.colId) return;
+        this.#parent.setColumnVisibility(checkbox.dataset.colId, checkbox.checked);
+    };
+
+    // Sets up prefetching of pages while the pointer is over their pagination buttons
+    #setupPrefetchOnHover(): void {
+        this.#parent.container.removeEventListener('mouseover', this.#handlePaginationHover);
+        if (!this.#parent.prefetch?.onHoverPage) return;
+        this.#parent.container.addEventListener('mouseover', this.#handlePaginationHover);
+    }
+
     // Handles sort requests when a column header is clicked
     #handleSortClick = (col: string): void => {
         log(this.#parent.debug, LogLevel.INFO, `Sort requested for column: ${col}`);
@@ -214,14 +268,13 @@ export class EventManager<T extends Identifiable & Record<string, unknown>>
         // Define page navigation actions
         const pageActions: { [key: string]: () => void } = {
             PageUp: () => {
-                if (this.#parent.state.currentPage > 1)
+                // Appending modes keep every loaded page, so there is no previous page to go to
+                if (this.#parent.paginationMode === 'pages' && this.#parent.state.currentPage > 1)
                     this.#parent.gotoPage(this.#parent.state.currentPage - 1);
             },
+            // gotoPage appends the next page in the loadMore and infinite pagination modes
             PageDown: () => {
-                const totalPages = Math.ceil(
-                    this.#parent.state.totalRecords / this.#parent.state.rowsPerPage
-                );
-                if (this.#parent.state.currentPage < totalPages)
+                if (this.#parent.hasNextPage())
                     this.#parent.gotoPage(this.#parent.state.currentPage + 1);
             },
         };
@@ -270,8 +323,12 @@ export class EventManager<T extends Identifiable & Record<string, unknown>>
     // Handles column resizing during mouse movement
     #handleResize = (event: MouseEvent): void => {
         if (this.#resizingColumnId === null) return;
-        // Calculate new width based on mouse movement
-        const width = this.#startWidth + (event.clientX - this.#startX);
+        // Calculate new width based on mouse movement, within the column's limits
+        const def = this.#parent.state.columnDefs[this.#resizingColumnId];
+        const width = Math.min(
+            def?.maxWidth ?? Infinity,
+            Math.max(def?.minWidth ?? 0, this.#startWidth + (event.clientX - this.#startX))
+        );
         log(
             this.#parent.debug,
             LogLevel.LOG,
@@ -343,28 +400,59 @@ export class EventManager<T extends Identifiable & Record<string, unknown>>
             return;
         }
 
+        // Handle column menu button clicks
+        const menuButton = target.closest<HTMLElement>(`.${config.classes.columnMenuButton}`);
+        if (menuButton) {
+            event.preventDefault();
+            const th = menuButton.closest('th');
+            if (th?.dataset.colId) this.#renderer.toggleColumnMenu(th.dataset.colId);
+            return;
+        }
+
+        // Handle pin and unpin actions of the column menu
+        const pinAction = target.closest<HTMLButtonElement>(
+            `.${config.classes.columnMenu} button[data-pin]`
+        );
+        if (pinAction) {
+            event.preventDefault();
+            const menu = pinAction.closest<HTMLElement>(`.${config.classes.columnMenu}`);
+            const pin = pinAction.dataset.pin;
+            if (menu?.dataset.colId) {
+                this.#parent.setColumnPinned(
+                    menu.dataset.colId,
+                    pin === 'left' || pin === 'right' ? pin : null
+                );
+            }
+            this.#renderer.toggleColumnMenu();
+            return;
+        }
+
+        // Handle column chooser button clicks
+        if (target.closest(`.${config.classes.columnsButton}`)) {
+            event.preventDefault();
+            this.#renderer.toggleColumnChooser();
+            return;
+        }
+
+        // Handle "Load more" button clicks
+        if (target.closest(`.${config.classes.loadMoreButton}`)) {
+            event.preventDefault();
+            this.#parent.loadMore();
+            return;
+        }
+
         // Handle pagination button clicks
         const pageButton = target.closest<HTMLButtonElement>('.snap-pagination-container button');
         if (pageButton) {
             event.preventDefault();
             if (pageButton.disabled) return;
 
-            const pageNumText = pageButton.textContent?.trim();
-            const pageNum = pageNumText ? parseInt(pageNumText, 10) : NaN;
-
             log(this.#parent.debug, LogLevel.INFO, 'Pagination button clicked.', {
-                text: pageNumText,
+                text: pageButton.textContent?.trim(),
             });
 
-            if (pageButton.classList.contains(config.pagination.prevButton.classNames.base)) {
-                this.#parent.gotoPage(this.#parent.state.currentPage - 1);
-            } else if (
-                pageButton.classList.contains(config.pagination.nextButton.classNames.base)
-            ) {
-                this.#parent.gotoPage(this.#parent.state.currentPage + 1);
-            } else if (!isNaN(pageNum)) {
-                this.#parent.gotoPage(pageNum);
-            }
+            const page = this.#getButtonPage(pageButton);
+            if (page !== null) this.#parent.gotoPage(page);
             return;
         }
 
@@ -380,6 +468,30 @@ export class EventManager<T extends Identifiable & Record<string, unknown>>
         }
     };
 
+    // Returns the page a pagination button navigates to, or null for other buttons
+    #getButtonPage(pageButton: HTMLButtonElement): number | null {
+        const { currentPage } = this.#parent.state;
+        if (pageButton.classList.contains(config.pagination.prevButton.classNames.base)) {
+            return currentPage - 1;
+        }
+        if (pageButton.classList.contains(config.pagination.nextButton.classNames.base)) {
+            return currentPage + 1;
+        }
+        const pageNumText = pageButton.textContent?.trim();
+        const pageNum = pageNumText ? parseInt(pageNumText, 10) : NaN;
+        return isNaN(pageNum) ? null : pageNum;
+    }
+
+    // Prefetches the page of the pagination button under the pointer
+    #handlePaginationHover = (event: MouseEvent): void => {
+        const pageButton = (event.target as HTMLElement).closest<HTMLButtonElement>(
+            '.snap-pagination-container button'
+        );
+        if (!pageButton || pageButton.disabled) return;
+        const page = this.#getButtonPage(pageButton);
+        if (page !== null) this.#parent.cacheManager.prefetchPage(page);
+    };
+
     // Handles column drop events
     #handleDrop = (event: DragEvent): void => {
         event.preventDefault();
@@ -0,0 +1,215 @@
+import { log } from './utils.js';
+import { UrlManager } from './UrlManager.js';
+import { parseRetryAfter } from './RetryPolicy.js';
+import type { SnapRecords } from './SnapRecords.js';
+import { dedupeRequest, getRequestKey } from './RequestRegistry.js';
+import {
+    LogLevel,
+    DataSource,
+    Identifiable,
+    CacheValidators,
+    DataSourceResult,
+    DataSourceContext,
+    ServerRequestParams,
+    SnapRecordsDataError,
+    SnapRecordsHttpError,
+    SnapRecordsNetworkError,
+} from './SnapTypes.js';
+
+/*========================================================================================================
+
+    HTTP DATA SOURCE
+
+    Default data source that loads records from the configured API URL
+
+    Builds the request URL through the parent's UrlManager and fetches it with the global `fetch`,
+    applying the `request` option (method, headers, auth token, credentials and body serializer).
+    GET requests carry the parameters in the query string; other methods send them in the body.
+    Validators of the cached copy are sent as If-None-Match/If-Modified-Since on GET requests, and a
+    `304 Not Modified` answer is returned as a `notModified` result so the cached page is kept.
+    By default the server is expected to answer with a `{ data: T[], totalRecords: number }` payload
+    (or an `X-Total-Count` header), plus `nextCursor`/`prevCursor` in cursor pagination mode;
+    the `responseAdapter` option maps any other payload shape.
+    Results are validated so that malformed payloads fail loudly instead of rendering an empty table.
+    Requests go through the shared request registry, so a load of a page that is still being
+    prefetched, or the same request made by another instance, reuses the response in flight; each
+    caller then applies its own response adapter to the shared JSON payload.
+    Used by SnapRecords whenever no custom `dataSource` option is supplied, for both the main
+    load path and page preloading.
+
+    @typeParam T - The type of records loaded, extending Identifiable and a generic record.
+
+==========================================================================================================*/
+
+export class HttpDataSource<T extends Identifiable & Record<string, unknown>>
+    implements DataSource<T>
+{
+    // Reference to the parent SnapRecords instance
+    #parent: SnapRecords<T>;
+    // URL manager for constructing API request URLs
+    #urlManager: UrlManager<T>;
+
+    // Constructor initializes the data source with parent and URL manager
+    constructor(parent: SnapRecords<T>, urlManager: UrlManager<T>) {
+        this.#parent = parent;
+        this.#urlManager = urlManager;
+    }
+
+    // Fetches the records for the given request parameters from the API
+    public async load(
+        params: ServerRequestParams,
+        context: DataSourceContext = {}
+    ): Promise<DataSourceResult<T>> {
+        const { url, init } = await this.buildRequest(params, context.signal);
+        this.#applyValidators(init, context.validators);
+        log(this.#parent.debug, LogLevel.LOG, `HttpDataSource ${init.method} request:`, url);
+        // Identical requests in flight, from this or another instance, share one response
+        const { response, json } = await dedupeRequest(
+            getRequestKey(url, init),
+            context.signal,
+            async (signal) => {
+                const response = await this.#fetch(url, { ...init, signal });
+                const hasBody = response.ok && response.status !== 304;
+                return { response, json: hasBody ? await this.#parseJson(response, url) : null };
+            }
+        );
+        const etag = response.headers?.get('ETag') ?? undefined;
+        const lastModified = response.headers?.get('Last-Modified') ?? undefined;
+        if (response.status === 304) {
+            return { data: [], notModified: true, etag, lastModified };
+        }
+        if (!response.ok) {
+            throw new SnapRecordsHttpError(
+                `HTTP error! status: ${response.status}`,
+                response.status,
+                parseRetryAfter(response.headers?.get('Retry-After'))
+            );
+        }
+        const result = await this.#adapt(json, response, url);
+        return { ...this.#validateResult(result, url), etag, lastModified };
+    }
+
+    // Maps the payload through the response adapter, reporting its failures as data errors
+    async #adapt(
+        json: unknown,
+        response: Response,
+        url: string
+    ): Promise<DataSourceResult<T> | undefined> {
+        const adapter = this.#parent.responseAdapter ?? this.#defaultAdapter;
+        try {
+            return await adapter(json, response);
+        } catch (error) {
+            throw new SnapRecordsDataError(
+                `Malformed response from ${url}: ${(error as Error).message}`,
+                error
+            );
+        }
+    }
+
+    // Sends the request, reporting a rejected fetch as a network error unless it was aborted
+    async #fetch(url: string, init: RequestInit): Promise<Response> {
+        try {
+            return await fetch(url, init);
+        } catch (error) {
+            if (init.signal?.aborted) throw error;
+            throw new SnapRecordsNetworkError(
+                `Network request to ${url} failed: ${(error as Error).message}`,
+                error
+            );
+        }
+    }
+
+    // Turns a GET request into a conditional one when the cached copy has validators
+    #applyValidators(init: RequestInit, validators?: CacheValidators): void {
+        if (!validators || (init.method !== 'GET' && init.method !== 'HEAD')) return;
+        const headers = init.headers as Record<string, string>;
+        if (validators.etag) headers['If-None-Match'] = validators.etag;
+        if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+    }
+
+    // Parses the response body, reporting invalid JSON as a data error that is not retried
+    async #parseJson(response: Response, url: string): Promise<unknown> {
+        try {
+            return await response.json();
+        } catch (error) {
+            throw new SnapRecordsDataError(
+                `Invalid JSON response from ${url}: ${(error as Error).message}`,
+                error
+            );
+        }
+    }
+
+    // Maps the default `{ data, totalRecords }` payload, reading X-Total-Count as a fallback
+    #defaultAdapter = (json: unknown, response: Response): DataSourceResult<T> => {
+        const payload = (json ?? {}) as Record<string, unknown>;
+        const headerTotal = response.headers?.get('X-Total-Count');
+        const totalRecords =
+            payload.totalRecords ?? (headerTotal != null ? Number(headerTotal) : undefined);
+        return {
+            data: payload.data,
+            totalRecords,
+            nextCursor: payload.nextCursor,
+            prevCursor: payload.prevCursor,
+        } as DataSourceResult<T>;
+    };
+
+    // Ensures an adapted result has the internal shape, throwing a data error otherwise
+    #validateResult(result: DataSourceResult<T> | undefined, url: string): DataSourceResult<T> {
+        if (!result || !Array.isArray(result.data)) {
+            throw new SnapRecordsDataError(
+                `Malformed response from ${url}: expected a "data" array of records.`
+            );
+        }
+        const { totalRecords } = result;
+        // Keyset APIs often cannot count, so the total is optional in cursor pagination mode
+        if (totalRecords === undefined && this.#parent.cursorPagination) return result;
+        if (
+            typeof totalRecords !== 'number' ||
+            !Number.isFinite(totalRecords) ||
+            totalRecords < 0
+        ) {
+            throw new SnapRecordsDataError(
+                `Malformed response from ${url}: expected "totalRecords" to be a non-negative number.`
+            );
+        }
+        return result;
+    }
+
+    // Builds the URL and fetch init object for a data request
+    public async buildRequest(
+        params: ServerRequestParams,
+        signal?: AbortSignal
+    ): Promise<{ url: string; init: RequestInit }> {
+        const options = this.#parent.requestOptions;
+        const method = (options.method ?? 'GET').toUpperCase();
+        const headers: Record<string, string> = { ...options.headers };
+
+        // Resolve a fresh auth token before every request
+        if (options.getAuthToken) {
+            const token = await options.getAuthToken();
+            if (token) headers['Authorization'] = `Bearer ${token}`;
+        }
+
+        const init: RequestInit = { method, headers, signal };
+        if (options.credentials) init.credentials = options.credentials;
+
+        if (method === 'GET' || method === 'HEAD') {
+            return { url: this.#urlManager.buildUrl(params), init };
+        }
+
+        // Non-GET requests send the parameters in the body instead of the query string
+        if (options.serializeBody) {
+            init.body = options.serializeBody(params);
+        } else {
+            init.body = JSON.stringify(params);
+            if (!Object.keys(headers).some((name) => name.toLowerCase() === 'content-type')) {
+                headers['Content-Type'] = 'application/json';
+            }
+        }
+        return { url: this.#parent.baseUrl, init };
+    }
+}
+
+/*========================================================================================================
+    HTTP DATA SOURCE OBJECT ENDS HERE
+==========================================================================================================*/
@@ -0,0 +1,126 @@
+import { log } from './utils.js';
+import type { SnapRecords } from './SnapRecords.js';
+import { LogLevel, Identifiable, LiveUpdateMessage, LiveUpdatesOptions } from './SnapTypes.js';
+
+/*========================================================================================================
+
+    LIVE UPDATE MANAGER
+
+    Class responsible for receiving live row updates over Server-Sent Events or WebSocket
+
+    Subscribes to the `liveUpdates` endpoint and applies each `upsert`/`delete` message to the parent
+    instance by record id, so only the affected elements are re-rendered instead of refreshing the
+    whole page. Messages are JSON `{ type: 'upsert', record }` or `{ type: 'delete', id }` objects
+    (or arrays of them) unless a custom `parseMessage` is supplied. EventSource reconnects on its own;
+    closed WebSocket connections are reopened after `reconnectDelayMs` until the manager is stopped.
+
+    @typeParam T - The type of records updated, extending Identifiable and a generic record.
+
+==========================================================================================================*/
+
+export class LiveUpdateManager<T extends Identifiable & Record<string, unknown>> {
+    // Reference to the parent SnapRecords instance
+    #parent: SnapRecords<T>;
+    // Live updates configuration
+    #options: LiveUpdatesOptions<T>;
+    // Open Server-Sent Events connection, if any
+    #eventSource: EventSource | null = null;
+    // Open WebSocket connection, if any
+    #socket: WebSocket | null = null;
+    // Timer reopening a closed WebSocket
+    #reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    // Flag indicating if the manager should stay connected
+    #isActive: boolean = false;
+
+    // Constructor initializes the manager with the parent instance and live updates options
+    constructor(parent: SnapRecords<T>, options: LiveUpdatesOptions<T>) {
+        this.#parent = parent;
+        this.#options = options;
+    }
+
+    // Opens the connection to the live updates endpoint
+    public start(): void {
+        if (this.#isActive) return;
+        this.#isActive = true;
+        this.#connect();
+    }
+
+    // Closes the connection and stops reconnecting
+    public stop(): void {
+        this.#isActive = false;
+        if (this.#reconnectTimer) clearTimeout(this.#reconnectTimer);
+        this.#reconnectTimer = null;
+        this.#eventSource?.close();
+        this.#eventSource = null;
+        if (this.#socket) {
+            this.#socket.onclose = null;
+            this.#socket.close();
+            this.#socket = null;
+        }
+        log(this.#parent.debug, LogLevel.INFO, 'Live updates stopped.');
+    }
+
+    // Applies a raw message received from the endpoint
+    public handleMessage(data: string): void {
+        let parsed: ReturnType<NonNullable<LiveUpdatesOptions<T>['parseMessage']>>;
+        try {
+            parsed = this.#options.parseMessage
+                ? this.#options.parseMessage(data)
+                : (JSON.parse(data) as LiveUpdateMessage<T> | LiveUpdateMessage<T>[]);
+        } catch (error) {
+            log(this.#parent.debug, LogLevel.WARN, 'Ignoring unreadable live update:', { error });
+            return;
+        }
+        if (!parsed) return;
+        const messages: ReadonlyArray<LiveUpdateMessage<T>> = Array.isArray(parsed)
+            ? parsed
+            : [parsed as LiveUpdateMessage<T>];
+        messages.forEach((message) => this.#apply(message));
+    }
+
+    // Applies a single upsert or delete message to the parent instance
+    #apply(message: LiveUpdateMessage<T>): void {
+        if (message?.type === 'upsert' && message.record?.id != null) {
+            this.#parent.upsertRecord(message.record, this.#options.onInsert ?? 'refresh');
+        } else if (message?.type === 'delete' && message.id != null) {
+            this.#parent.removeRecord(message.id);
+        } else {
+            log(this.#parent.debug, LogLevel.WARN, 'Ignoring unknown live update:', message);
+        }
+    }
+
+    // Opens the configured transport
+    #connect(): void {
+        const { url, transport, withCredentials } = this.#options;
+        const useWebSocket =
+            (transport ?? (/^wss?:/i.test(url) ? 'websocket' : 'sse')) === 'websocket';
+        log(this.#parent.debug, LogLevel.INFO, `Connecting live updates to ${url}.`);
+        if (!useWebSocket) {
+            this.#eventSource = new EventSource(url, { withCredentials: withCredentials ?? false });
+            this.#eventSource.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+            this.#eventSource.onerror = () =>
+                log(this.#parent.debug, LogLevel.WARN, 'Live updates connection error.');
+            return;
+        }
+        this.#socket = new WebSocket(url);
+        this.#socket.onmessage = (event: MessageEvent) => this.handleMessage(String(event.data));
+        this.#socket.onclose = () => {
+            this.#socket = null;
+            if (!this.#isActive) return;
+            const delay = this.#options.reconnectDelayMs ?? 3000;
+            log(
+                this.#parent.debug,
+                LogLevel.WARN,
+                `Live updates closed, reconnecting in ${delay}ms.`
+            );
+            this.#reconnectTimer = setTimeout(() => {
+                this.#reconnectTimer = null;
+                if (this.#isActive) this.#connect();
+            }, delay);
+        };
+    }
+}
+
+/*========================================================================================================
+    LIVE UPDATE MANAGER OBJECT ENDS HERE
+==========================================================================================================*/
@@ -0,0 +1,135 @@
+import { getValueAtPath } from './utils.js';
+import { DataSource, Identifiable, DataSourceResult, ServerRequestParams } from './SnapTypes.js';
+
+/*========================================================================================================
+
+    LOCAL DATA SOURCE
+
+    Data source that filters, sorts and paginates an in-memory array
+
+    Used for client-side mode, when records are supplied through the `data` option or `setData()`
+    instead of being fetched from a server. It receives the same ServerRequestParams as any other
+    data source and applies them locally, so the state, renderer and pagination footer work exactly
+    as they do with a remote API. Filtering and sorting keys are field paths such as `author.name`;
+    the optional value reader lets SnapRecords resolve computed columns as well.
+
+    @typeParam T - The type of records held, extending Identifiable and a generic record.
+
+==========================================================================================================*/
+
+// Collator used for natural, case-insensitive string comparison
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Compares two cell values, ordering empty values last
+function compareValues(a: unknown, b: unknown): number {
+    const aEmpty = a === null || a === undefined || a === '';
+    const bEmpty = b === null || b === undefined || b === '';
+    if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+    return collator.compare(String(a), String(b));
+}
+
+// Sorts records by each sort condition in order, without mutating the input; also used by
+// SnapRecords to sort loaded pages by computed columns
+export function sortRecords<T>(
+    rows: T[],
+    sorting: Record<string, 'ASC' | 'DESC'> | undefined,
+    getValue: (row: T, path: string) => unknown
+): T[] {
+    if (!sorting) return rows;
+    const conditions = Object.entries(sorting);
+    if (conditions.length === 0) return rows;
+    return [...rows].sort((a, b) => {
+        for (const [key, direction] of conditions) {
+            const result = compareValues(getValue(a, key), getValue(b, key));
+            if (result !== 0) return direction === 'DESC' ? -result : result;
+        }
+        return 0;
+    });
+}
+
+export class LocalDataSource<T extends Identifiable & Record<string, unknown>>
+    implements DataSource<T>
+{
+    // Full set of records held in memory
+    #rows: T[];
+    // Reads the value filtered and sorted on from a record
+    readonly #getValue: (row: T, path: string) => unknown;
+
+    // Constructor initializes the data source with the records to serve and their value reader
+    constructor(
+        rows: ReadonlyArray<T> = [],
+        getValue: (row: T, path: string) => unknown = getValueAtPath
+    ) {
+        this.#rows = [...rows];
+        this.#getValue = getValue;
+    }
+
+    // Returns all records held by the data source
+    public getRows(): ReadonlyArray<T> {
+        return this.#rows;
+    }
+
+    // Replaces the records held by the data source
+    public setData(rows: ReadonlyArray<T>): void {
+        this.#rows = [...rows];
+    }
+
+    // Inserts a record, or replaces the record with the same id
+    public upsertRow(row: T): void {
+        const index = this.#rows.findIndex((item) => String(item.id) === String(row.id));
+        if (index === -1) {
+            this.#rows.push(row);
+        } else {
+            this.#rows[index] = row;
+        }
+    }
+
+    // Removes the record with the given id
+    public removeRow(id: Identifiable['id']): void {
+        this.#rows = this.#rows.filter((item) => String(item.id) !== String(id));
+    }
+
+    // Applies filtering, sorting and pagination to the in-memory records
+    public async load(params: ServerRequestParams): Promise<DataSourceResult<T>> {
+        const filtered = this.#applyFilters(this.#rows, params.filtering);
+        const sorted = this.#applySorting(filtered, params.sorting);
+        return {
+            data: sorted.slice(params.offset, params.offset + params.perPage),
+            totalRecords: sorted.length,
+        };
+    }
+
+    // Keeps rows whose field values contain every filter value (case-insensitive)
+    #applyFilters(rows: T[], filtering?: Record<string, string>): T[] {
+        if (!filtering) return rows;
+        const filters = Object.entries(filtering)
+            .map(([key, value]) => [key, this.#decodeEntities(value).toLowerCase()])
+            .filter(([, value]) => value !== '');
+        if (filters.length === 0) return rows;
+        return rows.filter((row) =>
+            filters.every(([key, value]) =>
+                String(this.#getValue(row, key) ?? '')
+                    .toLowerCase()
+                    .includes(value)
+            )
+        );
+    }
+
+    // Sorts rows by each sort condition in order, without mutating the input
+    #applySorting(rows: T[], sorting?: Record<string, 'ASC' | 'DESC'>): T[] {
+        return sortRecords(rows, sorting, this.#getValue);
+    }
+
+    // Reverts the HTML escaping applied to filter values by UrlManager.getServerParams
+    #decodeEntities(value: string): string {
+        const textarea = document.createElement('textarea');
+        textarea.innerHTML = value;
+        return textarea.value;
+    }
+}
+
+/*========================================================================================================
+    LOCAL DATA SOURCE OBJECT ENDS HERE
+==========================================================================================================*/
@@ -0,0 +1,149 @@
+import { sanitizeHTML } from './utils.js';
+import { QueryDialect, QuerySerializer, ServerRequestParams } from './SnapTypes.js';
+
+/*========================================================================================================
+
+    QUERY DIALECTS FILE
+
+    Built-in query-string serializers used by UrlManager to talk to existing APIs.
+    Each serializer turns ServerRequestParams into URLSearchParams following the conventions
+    of a well-known server framework or protocol, so SnapRecords can point at an existing
+    service without a proxy. The `default` dialect is the original SnapRecords convention.
+
+==========================================================================================================*/
+
+// Original SnapRecords convention: page, perPage, offset, filtering[key], sorting[key]
+function serializeDefault(params: ServerRequestParams): URLSearchParams {
+    const urlParams = new URLSearchParams();
+    // Add pagination parameters
+    urlParams.append('page', params.page.toString());
+    urlParams.append('perPage', params.perPage.toString());
+    urlParams.append('offset', params.offset.toString());
+    // Add filtering parameters if present (sanitize values)
+    Object.entries(params.filtering ?? {}).forEach(([key, value]) => {
+        urlParams.append(`filtering[${key}]`, sanitizeHTML(String(value)));
+    });
+    // Add sorting parameters if present (values are controlled, ASC/DESC)
+    Object.entries(params.sorting ?? {}).forEach(([key, value]) => {
+        urlParams.append(`sorting[${key}]`, value);
+    });
+    if (params.cursor) urlParams.append('cursor', params.cursor);
+    return urlParams;
+}
+
+// Builds a comma-separated sort list where descending keys are prefixed with '-'
+function toPrefixedSort(sorting?: Record<string, 'ASC' | 'DESC'>): string {
+    return Object.entries(sorting ?? {})
+        .map(([key, direction]) => (direction === 'DESC' ? `-${key}` : key))
+        .join(',');
+}
+
+// JSON:API: page[number], page[size], sort=-a,b, filter[key]
+function serializeJsonApi(params: ServerRequestParams): URLSearchParams {
+    const urlParams = new URLSearchParams();
+    urlParams.append('page[number]', params.page.toString());
+    urlParams.append('page[size]', params.perPage.toString());
+    if (params.cursor) urlParams.append('page[cursor]', params.cursor);
+    const sort = toPrefixedSort(params.sorting);
+    if (sort) urlParams.append('sort', sort);
+    Object.entries(params.filtering ?? {}).forEach(([key, value]) => {
+        urlParams.append(`filter[${key}]`, value);
+    });
+    return urlParams;
+}
+
+// OData v4: $top, $skip, $orderby, $filter with contains() and $count
+function serializeOData(params: ServerRequestParams): URLSearchParams {
+    const urlParams = new URLSearchParams();
+    urlParams.append('$top', params.perPage.toString());
+    urlParams.append('$skip', params.offset.toString());
+    urlParams.append('$count', 'true');
+    const orderBy = Object.entries(params.sorting ?? {})
+        .map(([key, direction]) => `${key} ${direction.toLowerCase()}`)
+        .join(',');
+    if (orderBy) urlParams.append('$orderby', orderBy);
+    // String literals escape single quotes by doubling them
+    const filter = Object.entries(params.filtering ?? {})
+        .map(([key, value]) => `contains(${key},'${value.replace(/'/g, "''")}')`)
+        .join(' and ');
+    if (filter) urlParams.append('$filter', filter);
+    // Server-driven paging continues from the skip token of the previous page
+    if (params.cursor) urlParams.append('$skiptoken', params.cursor);
+    return urlParams;
+}
+
+// Spring Data: zero-based page, size, repeated sort=key,direction, plain filter keys
+function serializeSpring(params: ServerRequestParams): URLSearchParams {
+    const urlParams = new URLSearchParams();
+    urlParams.append('page', (params.page - 1).toString());
+    urlParams.append('size', params.perPage.toString());
+    Object.entries(params.sorting ?? {}).forEach(([key, direction]) => {
+        urlParams.append('sort', `${key},${direction.toLowerCase()}`);
+    });
+    Object.entries(params.filtering ?? {}).forEach(([key, value]) => {
+        urlParams.append(key, value);
+    });
+    if (params.cursor) urlParams.append('cursor', params.cursor);
+    return urlParams;
+}
+
+// Laravel paginator with spatie/laravel-query-builder: page, per_page, sort=-a,b, filter[key]
+function serializeLaravel(params: ServerRequestParams): URLSearchParams {
+    const urlParams = new URLSearchParams();
+    urlParams.append('page', params.page.toString());
+    urlParams.append('per_page', params.perPage.toString());
+    // Matches the query parameter read by Laravel's cursorPaginate()
+    if (params.cursor) urlParams.append('cursor', params.cursor);
+    const sort = toPrefixedSort(params.sorting);
+    if (sort) urlParams.append('sort', sort);
+    Object.entries(params.filtering ?? {}).forEach(([key, value]) => {
+        urlParams.append(`filter[${key}]`, value);
+    });
+    return urlParams;
+}
+
+// DataTables server-side protocol: draw, start, length, columns[i][...], order[i][...],
+// where the columns are the resolved field paths that filtering and sorting are keyed by
+function serializeDataTables(
+    params: ServerRequestParams,
+    columns: ReadonlyArray<string>
+): URLSearchParams {
+    const urlParams = new URLSearchParams();
+    // Out-of-order responses are already discarded by SnapRecords, so draw stays constant
+    // to keep the URL (and therefore the cache key) stable
+    urlParams.append('draw', '1');
+    urlParams.append('start', params.offset.toString());
+    urlParams.append('length', params.perPage.toString());
+    urlParams.append('search[value]', '');
+    urlParams.append('search[regex]', 'false');
+    columns.forEach((column, index) => {
+        urlParams.append(`columns[${index}][data]`, column);
+        urlParams.append(`columns[${index}][name]`, column);
+        urlParams.append(`columns[${index}][searchable]`, 'true');
+        urlParams.append(`columns[${index}][orderable]`, 'true');
+        urlParams.append(`columns[${index}][search][value]`, params.filtering?.[column] ?? '');
+        urlParams.append(`columns[${index}][search][regex]`, 'false');
+    });
+    Object.entries(params.sorting ?? {})
+        .map(([key, direction]) => [columns.indexOf(key), direction] as const)
+        .filter(([columnIndex]) => columnIndex !== -1)
+        .forEach(([columnIndex, direction], index) => {
+            urlParams.append(`order[${index}][column]`, columnIndex.toString());
+            urlParams.append(`order[${index}][dir]`, direction.toLowerCase());
+        });
+    return urlParams;
+}
+
+// Registry of built-in serializers, keyed by dialect name
+export const queryDialects: Record<QueryDialect, QuerySerializer> = {
+    default: serializeDefault,
+    jsonapi: serializeJsonApi,
+    odata: serializeOData,
+    spring: serializeSpring,
+    laravel: serializeLaravel,
+    datatables: serializeDataTables,
+};
+
+/*========================================================================================================
+    QUERY DIALECTS FILE ENDS HERE
+==========================================================================================================*/
@@ -0,0 +1,134 @@
+import { log } from './utils.js';
+import { config } from './SnapOptions.js';
+import type { SnapRecords } from './SnapRecords.js';
+import { LogLevel, Identifiable, AutoRefreshOptions } from './SnapTypes.js';
+
+/*========================================================================================================
+
+    REFRESH MANAGER
+
+    Class responsible for periodically reloading the current page in the background
+
+    Every `intervalMs` the parent reloads the current page silently: no loading overlay, selection
+    and keyboard position kept by record id, and the scroll position left untouched. Polls are
+    skipped while the tab is hidden (the page refreshes as soon as it becomes visible again) and
+    while the user is interacting with the component, so rows never shift under the pointer.
+    Polls are also skipped once "Load more" or infinite scroll has appended further pages, since
+    a reload would collapse them back to the first page.
+
+    @typeParam T - The type of records refreshed, extending Identifiable and a generic record.
+
+==========================================================================================================*/
+
+// Events counted as user interaction with the component
+const interactionEvents = ['pointerdown', 'keydown', 'wheel', 'touchstart', 'scroll'];
+
+export class RefreshManager<T extends Identifiable & Record<string, unknown>> {
+    // Reference to the parent SnapRecords instance
+    #parent: SnapRecords<T>;
+    // Auto-refresh configuration with defaults applied
+    #options: Required<AutoRefreshOptions>;
+    // Timer of the next poll
+    #timer: ReturnType<typeof setTimeout> | null = null;
+    // Time of the last user interaction with the component
+    #lastInteraction: number = 0;
+    // Flag indicating if polling is running
+    #isActive: boolean = false;
+    // Bound handlers, kept for removal
+    #boundVisibilityHandler = (): void => this.#handleVisibilityChange();
+    #boundInteractionHandler = (): void => {
+        this.#lastInteraction = Date.now();
+    };
+
+    // Constructor initializes the manager with the parent instance and auto-refresh options
+    constructor(parent: SnapRecords<T>, options: AutoRefreshOptions) {
+        this.#parent = parent;
+        this.#options = { pauseWhenHidden: true, pauseWhileInteracting: true, ...options };
+    }
+
+    // Starts polling and listening for visibility and interaction changes
+    public start(): void {
+        if (this.#isActive) return;
+        this.#isActive = true;
+        if (this.#options.pauseWhenHidden) {
+            document.addEventListener('visibilitychange', this.#boundVisibilityHandler);
+        }
+        if (this.#options.pauseWhileInteracting) {
+            interactionEvents.forEach((type) =>
+                this.#parent.container.addEventListener(type, this.#boundInteractionHandler, {
+                    capture: true,
+                    passive: true,
+                })
+            );
+        }
+        this.#schedule();
+        log(this.#parent.debug, LogLevel.INFO, `Auto-refresh every ${this.#options.intervalMs}ms.`);
+    }
+
+    // Stops polling and removes the listeners
+    public stop(): void {
+        if (!this.#isActive) return;
+        this.#isActive = false;
+        this.#clearTimer();
+        document.removeEventListener('visibilitychange', this.#boundVisibilityHandler);
+        interactionEvents.forEach((type) =>
+            this.#parent.container.removeEventListener(type, this.#boundInteractionHandler, {
+                capture: true,
+            })
+        );
+        log(this.#parent.debug, LogLevel.INFO, 'Auto-refresh stopped.');
+    }
+
+    // Schedules the next poll
+    #schedule(): void {
+        this.#clearTimer();
+        this.#timer = setTimeout(() => {
+            this.#timer = null;
+            this.#poll();
+            this.#schedule();
+        }, this.#options.intervalMs);
+    }
+
+    // Reloads the current page unless polling is paused
+    #poll(): void {
+        if (this.#isHidden()) {
+            log(this.#parent.debug, LogLevel.LOG, 'Auto-refresh skipped: tab hidden.');
+            return;
+        }
+        const idle = config.constants.autoRefreshInteractionIdle;
+        if (this.#options.pauseWhileInteracting && Date.now() - this.#lastInteraction < idle) {
+            log(this.#parent.debug, LogLevel.LOG, 'Auto-refresh skipped: user interacting.');
+            return;
+        }
+        if (this.#parent.paginationMode !== 'pages' && this.#parent.state.currentPage > 1) {
+            log(this.#parent.debug, LogLevel.LOG, 'Auto-refresh skipped: more pages appended.');
+            return;
+        }
+        this.#parent.refreshSilently();
+    }
+
+    // Pauses while the tab is hidden and refreshes as soon as it is visible again
+    #handleVisibilityChange(): void {
+        if (this.#isHidden()) {
+            this.#clearTimer();
+            return;
+        }
+        this.#poll();
+        this.#schedule();
+    }
+
+    // Checks whether polls should wait for the tab to become visible
+    #isHidden(): boolean {
+        return this.#options.pauseWhenHidden && document.visibilityState === 'hidden';
+    }
+
+    // Clears the pending poll
+    #clearTimer(): void {
+        if (this.#timer) clearTimeout(this.#timer);
+        this.#timer = null;
+    }
+}
+
+/*========================================================================================================
+    REFRESH MANAGER OBJECT ENDS HERE
+==========================================================================================================*/
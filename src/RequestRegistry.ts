@@ -0,0 +1,99 @@
+/*========================================================================================================
+
+    REQUEST REGISTRY FILE
+
+    Shares identical requests that are in flight at the same time
+
+    Every data request made by the HTTP data source, whether for a load or a prefetch and from any
+    SnapRecords instance on the page, goes through this registry. Callers asking for a request that
+    is already pending await the same promise instead of sending it again. Each caller keeps its own
+    abort signal: aborting detaches only that caller, and the underlying request is aborted once no
+    caller is left. Entries are removed as soon as their request settles, so nothing is cached here.
+
+==========================================================================================================*/
+
+// Request in flight, with the number of callers still waiting for it
+type InFlightRequest = {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    callers: number;
+    settled: boolean;
+};
+
+// Pending requests by key, shared by every instance
+const inFlight = new Map<string, InFlightRequest>();
+
+// Builds the registry key of a request from its method, URL, headers and body
+export function getRequestKey(url: string, init: RequestInit): string | null {
+    // Streams, forms and binary bodies cannot be compared
+    if (init.body != null && typeof init.body !== 'string') return null;
+    const headers = Object.entries((init.headers ?? {}) as Record<string, string>)
+        .map(([name, value]) => [name.toLowerCase(), value])
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return JSON.stringify([init.method ?? 'GET', url, headers, init.body ?? null]);
+}
+
+// Runs a request, or joins the identical one already in flight, under the caller's abort signal
+export function dedupeRequest<R>(
+    key: string | null,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal) => Promise<R>
+): Promise<R> {
+    if (key === null) return run(signal ?? new AbortController().signal);
+    if (signal?.aborted) return Promise.reject(abortError());
+    let entry = inFlight.get(key);
+    if (!entry) {
+        const controller = new AbortController();
+        const created: InFlightRequest = {
+            promise: Promise.resolve(),
+            controller,
+            callers: 0,
+            settled: false,
+        };
+        created.promise = run(controller.signal).finally(() => {
+            created.settled = true;
+            if (inFlight.get(key) === created) inFlight.delete(key);
+        });
+        inFlight.set(key, created);
+        entry = created;
+    }
+    const shared = entry;
+    shared.callers += 1;
+    return new Promise<R>((resolve, reject) => {
+        const onAbort = (): void => {
+            detach();
+            reject(abortError());
+        };
+        const detach = (): void => {
+            signal?.removeEventListener('abort', onAbort);
+            shared.callers -= 1;
+            // The last caller leaving abandons the request
+            if (shared.callers === 0 && !shared.settled) {
+                if (inFlight.get(key) === shared) inFlight.delete(key);
+                shared.controller.abort();
+            }
+        };
+        signal?.addEventListener('abort', onAbort);
+        (shared.promise as Promise<R>).then(
+            (value) => {
+                if (signal?.aborted) return;
+                detach();
+                resolve(value);
+            },
+            (error: unknown) => {
+                if (signal?.aborted) return;
+                detach();
+                reject(error);
+            }
+        );
+    });
+}
+
+// Creates the error fetch rejects with when its request is aborted
+function abortError(): Error {
+    return new DOMException('The request was aborted.', 'AbortError');
+}
+
+/*========================================================================================================
+    REQUEST REGISTRY FILE ENDS HERE
+==========================================================================================================*/
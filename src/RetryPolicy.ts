@@ -0,0 +1,56 @@
+import { RetryPolicy, SnapRecordsDataError, SnapRecordsHttpError } from './SnapTypes.js';
+
+/*========================================================================================================
+
+    RETRY POLICY FILE
+
+    Decides whether a failed data load is retried and how long to wait before the next attempt
+
+    HTTP failures are retried only for the configured statuses (429, 502, 503 and 504 by default),
+    waiting for the server's `Retry-After` when it sends one and otherwise backing off exponentially
+    with jitter; either delay is capped at `maxDelayMs`. Other data errors (malformed payloads, invalid JSON) are never retried because they
+    would fail the same way again; network errors and errors from custom data sources are retried.
+
+==========================================================================================================*/
+
+// Default retry policy, combined with the `retryAttempts` option for the number of attempts
+export const defaultRetryPolicy: Omit<Required<RetryPolicy>, 'attempts'> = {
+    statuses: [429, 502, 503, 504],
+    baseDelayMs: 500,
+    maxDelayMs: 30000,
+    jitter: true,
+};
+
+// Checks whether a load that failed with the given error should be attempted again
+export function isRetryable(error: unknown, policy: Required<RetryPolicy>): boolean {
+    if (error instanceof SnapRecordsHttpError) return policy.statuses.includes(error.status);
+    return !(error instanceof SnapRecordsDataError);
+}
+
+// Returns the delay before the given retry attempt (1 for the first retry), in milliseconds
+export function getRetryDelay(
+    attempt: number,
+    error: unknown,
+    policy: Required<RetryPolicy>
+): number {
+    // The server knows best when it will be ready again, within the longest delay allowed
+    if (error instanceof SnapRecordsHttpError && error.retryAfterMs !== undefined) {
+        return Math.min(policy.maxDelayMs, error.retryAfterMs);
+    }
+    const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    // Equal jitter keeps at least half the delay while spreading clients apart
+    return policy.jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+}
+
+// Parses a Retry-After header (seconds or HTTP date) into milliseconds
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/*========================================================================================================
+    RETRY POLICY FILE ENDS HERE
+==========================================================================================================*/
@@ -1,5 +1,14 @@
 import type { SnapRecords } from './SnapRecords.js';
-import { ISnapApi, RenderType, RowsPerPage, Identifiable, SnapRecordsState } from './SnapTypes.js';
+import {
+    ISnapApi,
+    ColumnPin,
+    RenderType,
+    RowsPerPage,
+    Identifiable,
+    LiveInsertPolicy,
+    SnapRecordsState,
+    CacheInvalidationFilter,
+} from './SnapTypes.js';
 
 /*========================================================================================================
 
@@ -53,6 +62,36 @@ export class SnapApi<T extends Identifiable & Record<string, unknown>> implement
         this.#instance.gotoPage(page);
     }
 
+    // Inserts or updates a record by id
+    public upsertRecord(record: T, onInsert?: LiveInsertPolicy): void {
+        this.#instance.upsertRecord(record, onInsert);
+    }
+
+    // Removes a record by id
+    public removeRecord(id: Identifiable['id']): void {
+        this.#instance.removeRecord(id);
+    }
+
+    // Deletes the matching cached pages, resolving to the number deleted
+    public invalidateCache(filter?: CacheInvalidationFilter<T>): Promise<number> {
+        return this.#instance.invalidateCache(filter);
+    }
+
+    // Shows or hides a column
+    public setColumnVisibility(key: string, visible: boolean): void {
+        this.#instance.setColumnVisibility(key, visible);
+    }
+
+    // Pins a column to the left or right side, or unpins it with null
+    public setColumnPinned(key: string, pinned: ColumnPin | null): void {
+        this.#instance.setColumnPinned(key, pinned);
+    }
+
+    // Appends the next page in the loadMore and infinite pagination modes
+    public loadMore(): void {
+        this.#instance.loadMore();
+    }
+
     // Returns the current data array
     public getData(): ReadonlyArray<T> {
         return this.#instance.getData();
@@ -93,6 +132,11 @@ export class SnapApi<T extends Identifiable & Record<string, unknown>> implement
         this.#instance.search(filters, merge);
     }
 
+    // Replaces the in-memory records used in client-side mode
+    public setData(rows: ReadonlyArray<T>): void {
+        this.#instance.setData(rows);
+    }
+
     // Updates state parameters (page, rows per page, filters, sort conditions)
     public updateParams(
         params: Partial<
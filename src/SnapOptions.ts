@@ -52,6 +52,10 @@ export const defaultOptions = {
     preloadNextPage: false,
     // Flag to enable draggable columns
     draggableColumns: false,
+    // Flag to show the column chooser
+    columnChooser: false,
+    // Flag to show the column header menus
+    columnMenu: false,
     // Default rendering mode
     format: RenderType.TABLE,
     // Default number of rows per page
@@ -66,6 +70,12 @@ export const config = {
         defaultDebounceDelay: 250,
         // Default cache expiration time (in milliseconds)
         defaultCacheExpiry: 28800000,
+        // Time expired cache entries are kept for offline mode before being purged (in milliseconds)
+        cacheStaleRetention: 604800000,
+        // Interval between purges of expired cache entries (in milliseconds)
+        cachePurgeInterval: 3600000,
+        // Maximum number of prefetched pages kept in memory
+        prefetchBufferSize: 20,
         // Delay for screen reader announcements (in milliseconds)
         screenReaderAnnouncementDelay: 1000,
         // Number of pages to show around the current page in pagination
@@ -78,6 +88,14 @@ export const config = {
         paginationLastPageBuffer: 2,
         // Buffer for showing ellipsis before the last page
         paginationEllipsisLastPageBuffer: 3,
+        // Estimated item height for virtualized rendering (in pixels)
+        virtualItemHeight: 40,
+        // Rows rendered outside the viewport in virtualized rendering
+        virtualOverscan: 10,
+        // Viewport height for virtualized rendering (in pixels)
+        virtualViewportHeight: 600,
+        // Idle time after the last user interaction before auto-refresh polls resume (in milliseconds)
+        autoRefreshInteractionIdle: 3000,
     },
     // Pagination configuration
     pagination: {
@@ -136,6 +154,25 @@ export const config = {
         contentContainer: 'snap-records-content',
         // Class for the error container
         errorContainer: 'snap-records-error',
+        // Class for the offline data banner
+        offlineBanner: 'snap-offline-banner',
+        // Class for the toolbar above the records
+        toolbar: 'snap-toolbar',
+        // Class for the button opening the column chooser
+        columnsButton: 'snap-columns-button',
+        // Class for the column chooser popover
+        columnChooser: 'snap-column-chooser',
+        // Class for the header cells of column groups
+        columnGroupHeader: 'snap-column-group',
+        // Class for the menu button of a column header
+        columnMenuButton: 'snap-column-menu-button',
+        // Class for the column header menu
+        columnMenu: 'snap-column-menu',
+        // Classes for the header and cells of columns pinned to the left or right
+        pinnedLeft: 'snap-pinned-left',
+        pinnedRight: 'snap-pinned-right',
+        // Class for the pinned column bordering the scrolling ones
+        pinnedEdge: 'snap-pinned-edge',
         // Class for responsive table wrapper
         tableResponsive: 'table-responsive',
         // Table-specific classes
@@ -178,6 +215,14 @@ export const config = {
         pagination: 'snap-pagination',
         // Class for pagination cells
         paginationCell: 'snap-pagination-cell',
+        // Class for the "Load more" button
+        loadMoreButton: 'snap-load-more',
+        // Class for the sentinel that triggers infinite scroll
+        infiniteSentinel: 'snap-infinite-sentinel',
+        // Class for the scrollable element of a virtualized view
+        virtualScroller: 'snap-virtual-scroller',
+        // Class for the spacers standing in for rows outside the virtualized window
+        virtualSpacer: 'snap-virtual-spacer',
         // Class for the loading overlay
         loadingOverlay: 'snap-loading-overlay',
         // Class for table overlay
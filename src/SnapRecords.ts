@@ -2,37 +2,65 @@ import {
     ISnapApi,
     LogLevel,
     CacheData,
+    ColumnDef,
+    ColumnPin,
+    ColumnGroup,
+    DataSource,
+    CacheStrategy,
+    CacheInvalidationFilter,
     RenderType,
     RowsPerPage,
     Translation,
+    QueryDialect,
     Identifiable,
+    PaginationMode,
     SortCondition,
     ISnapRenderer,
+    RetryPolicy,
     LifecycleHooks,
+    RequestOptions,
+    LiveInsertPolicy,
+    ResponseAdapter,
+    QuerySerializer,
     SnapRecordsState,
+    DataSourceResult,
+    VirtualizationOptions,
+    PrefetchOptions,
     ISnapEventManager,
     SnapRecordsOptions,
+    ServerRequestParams,
     SnapRecordsDataError,
     SnapRecordsConfigError,
+    SnapRecordsNetworkError,
 } from './SnapTypes.js';
 import './scss/SnapRecords.scss';
+import type { Draft } from 'immer';
 import { LRUCache } from 'lru-cache';
 import { SnapApi } from './SnapApi.js';
 import { config } from './SnapOptions.js';
 import { UrlManager } from './UrlManager.js';
-import { sanitizeHTML, log } from './utils.js';
 import { SnapRenderer } from './SnapRenderer.js';
 import { CacheManager } from './CacheManager.js';
 import { StateManager } from './StateManager.js';
 import { EventManager } from './EventManager.js';
-import { SnapRecordsDB } from './SnapRecordsDB.js';
 import { Configuration } from './Configuration.js';
 import defaultTranslations from './lang/en_US.json';
+import { HttpDataSource } from './HttpDataSource.js';
+import { RefreshManager } from './RefreshManager.js';
 import { TranslationManager } from './Translations.js';
+import { LiveUpdateManager } from './LiveUpdateManager.js';
+import { SnapRecordsDB, dbNamePrefix } from './SnapRecordsDB.js';
+import { LocalDataSource, sortRecords } from './LocalDataSource.js';
+import { sanitizeHTML, log, getValueAtPath, resolvePath } from './utils.js';
+import { defaultRetryPolicy, getRetryDelay, isRetryable } from './RetryPolicy.js';
 
 // Type definition for a function that can be debounced
 type DebounceableFunction = (...args: unknown[]) => void;
 
+// Type describing how a data load applies its result: replacing the records, appending the next
+// page, or silently replacing them in the background (auto-refresh polls)
+type LoadMode = 'replace' | 'append' | 'silent';
+
 /*========================================================================================================
 
     SNAP RECORDS CLASS
@@ -57,8 +85,28 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
     #formatCache: LRUCache<string, string>;
     // Configuration instance holding validated user options
     #config: Configuration<T>;
+    // Groups above each grouped column, outermost first
+    #columnGroupPaths: Map<string, ColumnGroup[]>;
     // Bound handler for window unload event to clean up resources
     #boundUnloadHandler!: () => void;
+    // Abort controller of the data load currently in flight
+    #loadController: AbortController | null = null;
+    // Generation counter identifying the most recent data load
+    #loadGeneration: number = 0;
+    // Flag indicating if the instance has been destroyed
+    #isDestroyed: boolean = false;
+    // Filters, sorting and page size the recorded cursors belong to
+    #cursorScope: string = '';
+    // Mode of the next load (append for "Load more", silent for auto-refresh polls)
+    #nextLoadMode: LoadMode = 'replace';
+    // Timer of a retry waiting for its backoff delay
+    #retryTimer: number | null = null;
+    // Revalidates offline data once the connection is back
+    #boundOnlineHandler = (): void => {
+        if (this.offlineDataTimestamp === null) return;
+        this.log(LogLevel.INFO, 'Connection restored, revalidating offline data.');
+        this.refreshSilently();
+    };
 
     // Current state of the SnapRecords instance, including data, pagination, and filters
     public state: SnapRecordsState<T>;
@@ -81,31 +129,63 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
     public readonly urlManager: UrlManager<T>;
     // Cache manager for handling data caching
     public readonly cacheManager: CacheManager<T>;
+    // Data source used to load records (defaults to fetching from the URL)
+    public dataSource: DataSource<T>;
+    // Live update manager applying streamed row changes, when liveUpdates is configured
+    public readonly liveUpdateManager: LiveUpdateManager<T> | null;
+    // Refresh manager polling the current page, when autoRefresh is configured
+    public readonly refreshManager: RefreshManager<T> | null;
 
     // Flag indicating if data is currently being loaded
     public isLoading: boolean = false;
+    // Time the displayed data was cached, while offline data is shown (null otherwise)
+    public offlineDataTimestamp: number | null = null;
     // Base URL for API requests
     public baseUrl!: string;
+    // HTTP request configuration used by the default data source
+    public requestOptions!: RequestOptions;
+    // Optional mapper from API payloads to the internal result shape
+    public responseAdapter?: ResponseAdapter<T>;
+    // Query-string convention used when building request URLs
+    public queryDialect!: QueryDialect;
+    // Optional custom query-string serializer, overriding the dialect
+    public querySerializer?: QuerySerializer;
+    // Flag to enable cursor (keyset) pagination
+    public cursorPagination!: boolean;
+    // How further pages are loaded (numbered pages, "Load more" button or infinite scroll)
+    public paginationMode!: PaginationMode;
+    // Resolved virtualization settings, or null when every row is rendered
+    public virtualization!: Required<VirtualizationOptions> | null;
     // Flag to enable or disable caching
     public useCache!: boolean;
+    // How cached pages are used (cache-first, network-first or stale-while-revalidate)
+    public cacheStrategy!: CacheStrategy;
+    // Optional function deriving cache tags from the request parameters
+    public cacheTags?: (params: ServerRequestParams) => string[];
+    // Maximum number of cached pages (unlimited when undefined)
+    public cacheMaxEntries?: number;
+    // Maximum estimated size of the cached pages in bytes (unlimited when undefined)
+    public cacheMaxBytes?: number;
     // Flag to enable URL state persistence via pushState
     public usePushState!: boolean;
-    // CSS classes for header cells, allowing custom styling
-    public headerCellClasses: string[] = [];
     // Delay for debouncing data load requests (in milliseconds)
     public debounceDelay!: number;
     // Cache expiration time (in milliseconds)
     public cacheExpiry!: number;
     // Flag to enable draggable columns
     public draggableColumns!: boolean;
+    // Flag to show the column chooser
+    public columnChooser!: boolean;
+    // Flag to show the column header menus
+    public columnMenu!: boolean;
     // Flag to enable row selection
     public selectable!: boolean;
     // Flag to enable state persistence in localStorage
     public persistState!: boolean;
     // Flag to destroy the instance on window unload
     public destroyOnUnload!: boolean;
-    // Flag to enable preloading of the next page
-    public preloadNextPageEnabled!: boolean;
+    // Prefetch configuration with defaults applied, or null when prefetching is disabled
+    public prefetch!: Required<PrefetchOptions> | null;
     // Flag to enable lazy loading of media (e.g., images)
     public lazyLoadMedia!: boolean;
     // Set of indices of selected rows
@@ -126,6 +206,8 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
     };
     // Number of retry attempts for failed data fetches
     public retryAttempts!: number;
+    // Resolved retry policy for failed data loads
+    public retryPolicy!: Required<RetryPolicy>;
     // Maximum size of the format cache
     public formatCacheSize!: number;
     // Flag to enable debug logging
@@ -134,8 +216,6 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
     public lifecycleHooks!: LifecycleHooks<T>;
     // Translation manager for handling language files
     public readonly translationManager: TranslationManager; // Add a property for the TranslationManager instance.
-    // Formatters for custom cell value rendering
-    public columnFormatters?: { [columnKey: string]: (value: unknown, row: T) => string };
     // Hash of the last applied filters for cache invalidation
     public lastFilterHash: string = '';
 
@@ -144,6 +224,18 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         return `snap-records-state-${this.container.id}`;
     }
 
+    // Deprecated: use `prefetch`. Reports whether any prefetching is enabled
+    public get preloadNextPageEnabled(): boolean {
+        return this.prefetch !== null;
+    }
+
+    // Deprecated: use `prefetch`. Enabling keeps the current configuration or prefetches the next page
+    public set preloadNextPageEnabled(enabled: boolean) {
+        this.prefetch = enabled
+            ? (this.prefetch ?? { ahead: 1, behind: 0, onHoverPage: false })
+            : null;
+    }
+
     // Constructor initializes the SnapRecords instance with a container ID and options
     constructor(containerId: string, options: Partial<SnapRecordsOptions<T>> = {}) {
         // Measure initialization time for performance logging
@@ -163,6 +255,7 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         // Corrected: Pass this.debug and this.log directly
         this.#config = new Configuration(options, this.debug, this.log.bind(this));
         const configOptions = this.#config.options;
+        this.#columnGroupPaths = this.#config.getColumnGroupPaths();
         // Initialize instance properties from options
         this.#initializeProperties(configOptions);
 
@@ -183,16 +276,16 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
             rowsPerPage: configOptions.rowsPerPage ?? RowsPerPage.DEFAULT,
             filters: {},
             sortConditions: [],
-            columns: [...configOptions.columns],
-            columnTitles: [...(configOptions.columnTitles ?? configOptions.columns)],
+            ...this.#getConfiguredColumns(),
             columnWidths: new Map(),
             data: [],
             totalRecords: 0,
+            totalRecordsKnown: true,
+            cursors: [],
             format: configOptions.format ?? RenderType.TABLE,
             language: configOptions.language ?? 'en_US',
             translations: null,
             theme: configOptions.theme ?? 'default',
-            headerCellClasses: [...(configOptions.headerCellClasses ?? [])],
         };
 
         // Define callbacks for event manager
@@ -202,7 +295,12 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         };
 
         // Initialize dependencies, passing 'this.log' for standardized logging
-        this.db = new SnapRecordsDB<T>(`SnapRecordsDB_${this.container.id}`);
+        // The cache scope (e.g., a user or tenant) gets a database of its own
+        const scope = configOptions.cacheScope ? `_${configOptions.cacheScope}` : '';
+        this.db = new SnapRecordsDB<T>(
+            `${dbNamePrefix}${this.container.id}${scope}`,
+            configOptions.cacheVersion
+        );
         // This ensures each SnapRecords instance can have its own path for translations.
         this.translationManager = new TranslationManager(
             configOptions.langPath,
@@ -211,9 +309,20 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         );
         this.stateManager = options.stateManager?.(this) ?? new StateManager(this);
         this.urlManager = options.urlManager?.(this) ?? new UrlManager(this);
+        this.dataSource =
+            options.dataSource ??
+            (options.data
+                ? new LocalDataSource(options.data, this.#readField)
+                : new HttpDataSource(this, this.urlManager));
         this.cacheManager =
             options.cacheManager?.(this, this.urlManager) ??
             new CacheManager(this, this.urlManager);
+        this.liveUpdateManager = configOptions.liveUpdates
+            ? new LiveUpdateManager(this, configOptions.liveUpdates)
+            : null;
+        this.refreshManager = configOptions.autoRefresh
+            ? new RefreshManager(this, configOptions.autoRefresh)
+            : null;
         this.renderer =
             options.renderer?.(this, this.contentContainer) ??
             new SnapRenderer(this, this.contentContainer);
@@ -267,6 +376,16 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
 
     // Navigates to the specified page
     public gotoPage(page: number): void {
+        // Appending modes reach the following page by loading more records
+        if (this.paginationMode !== 'pages' && page === this.state.currentPage + 1) {
+            this.loadMore();
+            return;
+        }
+        // Cursor pages can only be reached from a neighbouring page that returned their cursor
+        if (this.cursorPagination && page > 1 && !this.state.cursors[page - 1]) {
+            this.log(LogLevel.WARN, `No cursor known for page ${page}, navigation ignored.`);
+            return;
+        }
         this.log(LogLevel.INFO, `Navigating to page ${page}.`);
         this.stateManager.setState((draft) => {
             draft.currentPage = page;
@@ -275,6 +394,31 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         this.#debouncedLoadData();
     }
 
+    // Appends the next page to the current records (loadMore and infinite pagination modes)
+    public loadMore(): void {
+        if (this.#loadController || this.#retryTimer !== null || !this.hasNextPage()) return;
+        this.log(LogLevel.INFO, `Loading more records (page ${this.state.currentPage + 1}).`);
+        this.stateManager.setState((draft) => {
+            draft.currentPage += 1;
+        });
+        this.#nextLoadMode = 'append';
+        this.loadData();
+    }
+
+    // Reloads the current page in the background, keeping selection and scroll (auto-refresh)
+    public refreshSilently(): void {
+        // A load already in flight or waiting to retry brings fresh records anyway
+        if (this.#isDestroyed || this.#loadController || this.#retryTimer !== null) return;
+        this.#nextLoadMode = 'silent';
+        this.loadData();
+    }
+
+    // Checks whether a page exists after the current one
+    public hasNextPage(): boolean {
+        if (this.cursorPagination) return Boolean(this.state.cursors[this.state.currentPage]);
+        return this.state.currentPage < Math.ceil(this.state.totalRecords / this.state.rowsPerPage);
+    }
+
     // Sets the theme (light or dark)
     public setTheme(theme: 'light' | 'dark'): void {
         if (this.state.theme !== theme) {
@@ -320,6 +464,17 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         }
     }
 
+    // Deletes the cache databases of every SnapRecords instance (e.g., on logout)
+    public static deleteAllCaches(): Promise<number> {
+        return SnapRecordsDB.deleteAll();
+    }
+
+    // Deletes the matching cached pages from IndexedDB, resolving to the number deleted
+    public invalidateCache(filter?: CacheInvalidationFilter<T>): Promise<number> {
+        this.log(LogLevel.INFO, 'Cache invalidation requested.', filter);
+        return this.cacheManager.invalidateCache(filter);
+    }
+
     // Clears the in-memory format cache
     public clearFormatCache(): void {
         this.#formatCache.clear();
@@ -329,6 +484,17 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
     // Destroys the SnapRecords instance, cleaning up resources
     public destroy(): void {
         this.log(LogLevel.LOG, 'Destroying SnapRecords Instance...');
+        // Abort any in-flight load and invalidate pending responses
+        this.#isDestroyed = true;
+        this.#clearRetryTimer();
+        this.#loadController?.abort();
+        this.#loadController = null;
+        this.#loadGeneration++;
+        this.liveUpdateManager?.stop();
+        this.refreshManager?.stop();
+        this.cacheManager.stopMaintenance();
+        this.cacheManager.clearPrefetched();
+        window.removeEventListener('online', this.#boundOnlineHandler);
         this.eventManager.destroy();
         this.renderer.destroy();
         this.db.close();
@@ -345,7 +511,7 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
     public updateMobileCard(div: HTMLDivElement, row: T, index: number): void {
         div.setAttribute('data-index', index.toString());
         div.innerHTML = '';
-        this.state.columns.forEach((col: string) => {
+        this.getVisibleColumns().forEach((def) => {
             const cardRow = document.createElement('div');
             cardRow.classList.add(config.classes.cardRow);
             cardRow.setAttribute('role', 'row');
@@ -355,10 +521,9 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
             const value = document.createElement('span');
             value.classList.add(config.classes.cardValue);
             value.setAttribute('role', 'cell');
-            const colIdx = this.state.columns.indexOf(col);
-            const headerTitle = colIdx !== -1 ? this.state.columnTitles[colIdx] : col;
-            label.textContent = `${headerTitle}:`;
-            value.innerHTML = this.getFormattedValue(row[col as keyof T], col, row);
+            if (def.cellClass) value.classList.add(...def.cellClass.split(' '));
+            label.textContent = `${def.title}:`;
+            value.innerHTML = this.getFormattedValue(this.getCellValue(row, def), def.key, row);
             cardRow.appendChild(label);
             cardRow.appendChild(value);
             div.appendChild(cardRow);
@@ -367,27 +532,29 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
 
     // Reorders columns based on drag-and-drop interactions
     public reorderColumns(sourceColId: string, targetColId: string): void {
+        // Grouped headers only stay intact when columns move within their own group
+        const sourceGroups = this.getColumnGroupPath(sourceColId);
+        const targetGroups = this.getColumnGroupPath(targetColId);
+        if (sourceGroups[sourceGroups.length - 1] !== targetGroups[targetGroups.length - 1]) {
+            this.log(LogLevel.WARN, 'Columns can only be reordered within their column group.');
+            return;
+        }
         this.stateManager.setState((draft) => {
             // Find indices of source and target columns
             const sourceIndex = draft.columns.indexOf(sourceColId);
             const targetIndex = draft.columns.indexOf(targetColId);
             if (sourceIndex === -1 || targetIndex === -1) return;
 
+            // A column dropped among pinned columns joins their side, and leaves it otherwise
+            const targetPin = draft.columnDefs[targetColId]?.pinned;
+            const sourceDef = draft.columnDefs[sourceColId];
+            if (sourceDef && targetPin) sourceDef.pinned = targetPin;
+            if (sourceDef && !targetPin) delete sourceDef.pinned;
+
             // Reorder columns
             const cols = draft.columns as string[];
-            const titles = draft.columnTitles as string[];
-            const classes = draft.headerCellClasses as string[];
-
             const [sourceColumn] = cols.splice(sourceIndex, 1);
             cols.splice(targetIndex, 0, sourceColumn);
-
-            const [sourceTitle] = titles.splice(sourceIndex, 1);
-            titles.splice(targetIndex, 0, sourceTitle);
-
-            if (classes.length > 0) {
-                const [sourceClass] = classes.splice(sourceIndex, 1);
-                classes.splice(targetIndex, 0, sourceClass);
-            }
             this.log(LogLevel.INFO, `Columns reordered. New order: ${cols.join(', ')}`);
         });
 
@@ -407,10 +574,8 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
             return this.#formatCache.get(cacheKey)!;
         }
 
-        const formatted =
-            this.columnFormatters && this.columnFormatters[column]
-                ? this.columnFormatters[column](value, row)
-                : String(value ?? '');
+        const formatter = this.state.columnDefs[column]?.formatter;
+        const formatted = formatter ? formatter(value, row) : String(value ?? '');
 
         let finalHtml = sanitizeHTML(formatted);
 
@@ -423,28 +588,95 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         return finalHtml;
     }
 
-    // Loads data, checking cache first and falling back to API fetch
+    // Loads data, checking cache first and falling back to the data source
     public async loadData(attempt: number = 1): Promise<void> {
-        if (!this.baseUrl) return;
+        if (this.#isDestroyed) return;
+        // Supersede the previous load: abort its request, ignore its response and drop its retry
+        this.#clearRetryTimer();
+        this.#loadController?.abort();
+        const controller = new AbortController();
+        this.#loadController = controller;
+        const generation = ++this.#loadGeneration;
+        let mode = this.#nextLoadMode;
+        this.#nextLoadMode = 'replace';
+
         this.#startPerfMark('data-load');
-        this.log(LogLevel.INFO, 'Starting data load process...');
-        this.renderer.showLoading();
+        this.log(LogLevel.INFO, `Starting ${mode} data load (generation ${generation})...`);
+        // Appended pages load below the visible rows and polls run in the background,
+        // so neither covers the records with the overlay
+        if (mode === 'replace') this.renderer.showLoading();
+        // Appending modes always rebuild the record list from the first page
+        if (mode !== 'append' && this.paginationMode !== 'pages' && this.state.currentPage > 1) {
+            this.stateManager.setState((draft) => {
+                draft.currentPage = 1;
+            });
+        }
+        if (this.cursorPagination) this.#syncCursorScope();
+        // Set once built, so errors thrown while building it are still handled below
+        let url = '';
         try {
-            this.cacheManager.invalidateCache();
-            const url = this.urlManager.buildUrl(this.urlManager.getServerParams());
+            // The built URL doubles as the cache key, even for custom data sources
+            const params = this.urlManager.getServerParams();
+            url = this.urlManager.buildUrl(params);
+            this.cacheManager.invalidateOnFilterChange();
+
+            // A prefetched page is used once, in place of both the cache and the request
+            const prefetched =
+                mode !== 'silent' ? this.cacheManager.takePrefetched(url) : undefined;
+            const prefetchedResult = prefetched && (await prefetched.catch(() => undefined));
+            if (prefetchedResult) {
+                await this.#processSuccessfulResponse(
+                    prefetchedResult,
+                    params,
+                    url,
+                    generation,
+                    mode
+                );
+                return;
+            }
 
-            if (this.useCache) {
-                const cached = await this.cacheManager.getCachedData(url);
-                if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
-                    await this.#handleCachedResponse(cached);
+            // Any cached copy, however old, provides the validators of a conditional request
+            const cached = this.useCache
+                ? await this.cacheManager.getCachedData(url, true)
+                : undefined;
+            // Polls exist to pick up server changes, so they always go to the data source
+            if (cached && mode !== 'silent') {
+                const isFresh = Date.now() - cached.timestamp < this.cacheExpiry;
+                if (isFresh && this.cacheStrategy !== 'network-first') {
+                    await this.#handleCachedResponse(cached, generation, mode);
+                    // Appended pages are not revalidated, as a silent load would replace the list
+                    if (this.cacheStrategy === 'cache-first' || mode === 'append') return;
+                    // Revalidate in the background, re-rendering only if the page changed
+                    if (!this.#isCurrentLoad(generation)) return;
+                    this.renderer.hideLoading();
+                    mode = 'silent';
+                } else if (cached && !navigator.onLine) {
+                    // Without a connection the newest cached copy beats a request that cannot succeed
+                    await this.#handleOfflineResponse(cached, generation, mode);
                     return;
                 }
             }
-            await this.#fetchAndProcessData(url, attempt);
+            await this.#fetchAndProcessData(
+                params,
+                url,
+                attempt,
+                generation,
+                controller.signal,
+                mode,
+                cached
+            );
         } catch (error) {
-            this.#handleDataLoadError(error, attempt, this.baseUrl);
+            if (!this.#isCurrentLoad(generation) || controller.signal.aborted) {
+                this.log(LogLevel.INFO, `Ignoring error from superseded load ${generation}.`);
+                return;
+            }
+            await this.#handleDataLoadError(error, attempt, url, generation, mode);
         } finally {
-            this.renderer.hideLoading();
+            // Only the most recent load owns the loading indicator
+            if (this.#isCurrentLoad(generation)) {
+                this.#loadController = null;
+                this.renderer.hideLoading();
+            }
             this.#endPerfMark('data-load');
         }
     }
@@ -454,14 +686,76 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         this.log(LogLevel.INFO, 'Performing search with filters:', { filters, merge });
         this.stateManager.setState((draft) => {
             draft.currentPage = 1;
-            (draft.filters as Record<string, string>) = merge
-                ? { ...draft.filters, ...filters }
-                : filters;
+            (draft.filters as Record<string, string>) = this.#dropUnfilterable(
+                merge ? { ...draft.filters, ...filters } : filters
+            );
         });
         this.clearFormatCache();
         this.#debouncedLoadData();
     }
 
+    // Replaces the in-memory records and switches to client-side mode if needed
+    public setData(rows: ReadonlyArray<T>): void {
+        this.log(LogLevel.INFO, `Setting ${rows.length} local records.`);
+        if (this.dataSource instanceof LocalDataSource) {
+            this.dataSource.setData(rows);
+        } else {
+            // Server-side caching and preloading do not apply to local records
+            this.dataSource = new LocalDataSource(rows, this.#readField);
+            this.useCache = false;
+            this.prefetch = null;
+        }
+        this.clearFormatCache();
+        this.#debouncedLoadData();
+    }
+
+    // Inserts or updates a record by id, re-rendering only its element when it is on the page
+    public upsertRecord(record: T, onInsert: LiveInsertPolicy = 'refresh'): void {
+        // Local records are updated at the source so later sorting, filtering and paging see it
+        if (this.dataSource instanceof LocalDataSource) this.dataSource.upsertRow(record);
+        this.#invalidateRecordCache(record.id);
+        const index = this.#findRecordIndex(record.id);
+        if (index === -1) {
+            this.#insertRecord(record, onInsert);
+            return;
+        }
+        this.log(LogLevel.INFO, `Updating record ${record.id} in place.`);
+        this.stateManager.setState((draft) => {
+            (draft.data as T[])[index] = record;
+        });
+        this.#clearRecordFormatCache(record.id);
+        this.renderer.updateItem(this.state.data[index], index);
+    }
+
+    // Removes a record by id, removing only its element when it is on the page
+    public removeRecord(id: Identifiable['id']): void {
+        if (this.dataSource instanceof LocalDataSource) this.dataSource.removeRow(id);
+        this.#invalidateRecordCache(id);
+        const index = this.#findRecordIndex(id);
+        // Records on other pages may not even match the filters, so the total is left as is
+        if (index === -1) return;
+        this.log(LogLevel.INFO, `Removing record ${id}.`);
+        this.stateManager.setState((draft) => {
+            (draft.data as T[]).splice(index, 1);
+            draft.totalRecords = Math.max(0, draft.totalRecords - 1);
+        });
+        // Selection and keyboard position are index based, so shift them past the removed row
+        const wasSelected = this.selectedRows.has(index);
+        this.selectedRows = new Set(
+            Array.from(this.selectedRows)
+                .filter((selected) => selected !== index)
+                .map((selected) => (selected > index ? selected - 1 : selected))
+        );
+        if (this.currentRowIndex > index) this.currentRowIndex--;
+        else if (this.currentRowIndex >= this.state.data.length)
+            this.currentRowIndex = this.state.data.length - 1;
+        this.#clearRecordFormatCache(id);
+        this.renderer.removeItem(String(id));
+        if (wasSelected && this.lifecycleHooks.selectionChanged) {
+            this.lifecycleHooks.selectionChanged(this.getSelectedRows());
+        }
+    }
+
     // Returns the currently selected rows
     public getSelectedRows(): T[] {
         return Array.from(this.selectedRows).map((index) => this.state.data[index]) as T[];
@@ -470,12 +764,10 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
     // Updates a list item with new data
     public updateListItem(li: HTMLLIElement, row: T, index: number): void {
         li.setAttribute('data-index', index.toString());
-        const formattedContent = this.state.columns
-            .map((col: string) => {
-                const colIndex = this.state.columns.indexOf(col);
-                const headerTitle = colIndex !== -1 ? this.state.columnTitles[colIndex] : col;
-                const value = this.getFormattedValue(row[col as keyof T], col, row);
-                return `<strong>${headerTitle}:</strong> ${value}`;
+        const formattedContent = this.getVisibleColumns()
+            .map((def) => {
+                const value = this.getFormattedValue(this.getCellValue(row, def), def.key, row);
+                return `<strong>${def.title}:</strong> ${value}`;
             })
             .join(' | ');
         li.innerHTML = formattedContent;
@@ -500,16 +792,7 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         tr.setAttribute('data-index', index.toString());
 
         const fragment = document.createDocumentFragment();
-        this.state.columns.forEach((col) => {
-            const colName = col as string;
-            const td = document.createElement('td');
-            td.setAttribute('role', 'gridcell');
-            td.setAttribute('data-col-id', colName);
-            const formattedValue = this.getFormattedValue(row[colName as keyof T], colName, row);
-            td.innerHTML = formattedValue;
-            td.dataset.lastValue = formattedValue;
-            fragment.appendChild(td);
-        });
+        this.getVisibleColumns().forEach((def) => fragment.appendChild(this.#createCell(row, def)));
 
         tr.innerHTML = '';
         tr.appendChild(fragment);
@@ -521,34 +804,195 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         tr.setAttribute('role', 'row');
         tr.setAttribute('data-index', index.toString());
         tr.setAttribute('data-key', String(rowKey));
-        this.state.columns.forEach((col) => {
-            const colName = col as string;
-            const td = document.createElement('td');
-            td.setAttribute('role', 'gridcell');
-            td.setAttribute('data-col-id', colName);
-            const formattedValue = this.getFormattedValue(row[colName as keyof T], colName, row);
-            td.innerHTML = formattedValue;
-            td.dataset.lastValue = formattedValue;
-            tr.appendChild(td);
-        });
+        this.getVisibleColumns().forEach((def) => tr.appendChild(this.#createCell(row, def)));
         return tr;
     }
 
+    // Creates a table cell for a column of a record
+    #createCell(row: T, def: ColumnDef<T>): HTMLTableCellElement {
+        const td = document.createElement('td');
+        td.setAttribute('role', 'gridcell');
+        td.setAttribute('data-col-id', def.key);
+        if (def.cellClass) td.className = def.cellClass;
+        if (def.align) td.style.textAlign = def.align;
+        this.applyPinnedStyle(td, def.key);
+        const formattedValue = this.getFormattedValue(this.getCellValue(row, def), def.key, row);
+        td.innerHTML = formattedValue;
+        td.dataset.lastValue = formattedValue;
+        return td;
+    }
+
+    // Shows or hides a column, keeping at least one column visible
+    public setColumnVisibility(key: string, visible: boolean): void {
+        const def = this.state.columnDefs[key];
+        if (!def) {
+            this.log(LogLevel.WARN, `Unknown column '${key}', visibility unchanged.`);
+            return;
+        }
+        if ((def.visible !== false) === visible) return;
+        if (!visible && this.getVisibleColumns().length === 1) {
+            this.log(LogLevel.WARN, 'The last visible column cannot be hidden.');
+            // Re-render so the chooser checkbox reflects the unchanged state
+            this.renderer.updateColumnChooser();
+            return;
+        }
+        this.log(LogLevel.INFO, `${visible ? 'Showing' : 'Hiding'} column ${key}.`);
+        this.stateManager.setState((draft) => {
+            draft.columnDefs[key].visible = visible;
+        });
+        this.renderer.render();
+        this.eventManager.setupAllHandlers();
+    }
+
+    // Pins a column to the left or right side of the table, or unpins it with null
+    public setColumnPinned(key: string, pinned: ColumnPin | null): void {
+        const def = this.state.columnDefs[key];
+        if (!def) {
+            this.log(LogLevel.WARN, `Unknown column '${key}', pinning unchanged.`);
+            return;
+        }
+        if ((def.pinned ?? null) === pinned) return;
+        this.log(LogLevel.INFO, pinned ? `Pinning column ${key} ${pinned}.` : `Unpinning ${key}.`);
+        this.stateManager.setState((draft) => {
+            if (pinned) {
+                draft.columnDefs[key].pinned = pinned;
+            } else {
+                delete draft.columnDefs[key].pinned;
+            }
+        });
+        this.renderer.render();
+        this.eventManager.setupAllHandlers();
+    }
+
+    // Returns the definitions of the displayed columns, in display order:
+    // columns pinned left first and columns pinned right last
+    public getVisibleColumns(): ColumnDef<T>[] {
+        const { columns, columnDefs } = this.state;
+        const visible = columns
+            .map((key) => columnDefs[key])
+            .filter((def): def is ColumnDef<T> => Boolean(def) && def.visible !== false);
+        return [
+            ...visible.filter((def) => def.pinned === 'left'),
+            ...visible.filter((def) => !def.pinned),
+            ...visible.filter((def) => def.pinned === 'right'),
+        ];
+    }
+
+    // Makes a header or body cell sticky when its column is pinned
+    public applyPinnedStyle(cell: HTMLElement, key: string): void {
+        const { pinnedLeft, pinnedRight, pinnedEdge } = config.classes;
+        const pin = this.renderer.getPinnedOffset(key);
+        cell.classList.remove(pinnedLeft, pinnedRight, pinnedEdge);
+        cell.style.left = '';
+        cell.style.right = '';
+        if (!pin) return;
+        cell.classList.add(pin.side === 'left' ? pinnedLeft : pinnedRight);
+        cell.style[pin.side] = `${pin.offset}px`;
+        cell.classList.toggle(pinnedEdge, pin.edge);
+    }
+
+    // Returns the value shown in a column of a record: computed, or read at the field path
+    public getCellValue(row: T, def: ColumnDef<T>): unknown {
+        return def.valueGetter ? def.valueGetter(row) : getValueAtPath(row, def.field ?? def.key);
+    }
+
+    // Returns the field path a column is sorted and filtered on by the data source, or null
+    // for computed columns, which only the local data source can evaluate
+    public getColumnPath(key: string): string | null {
+        const def = this.state.columnDefs[key];
+        if (def?.valueGetter && def.field === undefined) {
+            return this.dataSource instanceof LocalDataSource ? key : null;
+        }
+        return resolvePath(def?.field ?? key);
+    }
+
+    // Checks whether a column can be sorted, by the data source or, for computed columns, locally
+    public isColumnSortable(key: string): boolean {
+        return this.state.columnDefs[key]?.sortable !== false;
+    }
+
+    // Sorts a page from a non-local data source by the sort conditions, when some of them are on
+    // computed columns the data source could not sort by; the page order is kept otherwise
+    #sortByComputedColumns(rows: T[]): T[] {
+        const { sortConditions } = this.state;
+        if (!sortConditions.some(([key]) => this.getColumnPath(key) === null)) return rows;
+        const sorting = Object.fromEntries(
+            sortConditions.map(([key, direction]) => [this.getColumnPath(key) ?? key, direction])
+        );
+        return sortRecords(rows, sorting, this.#readField);
+    }
+
+    // Reads a field path for local sorting and filtering, evaluating computed columns by their key
+    #readField = (row: T, path: string): unknown => {
+        const def = this.state.columnDefs[path];
+        if (def?.valueGetter && def.field === undefined) return def.valueGetter(row);
+        return getValueAtPath(row, path);
+    };
+
+    // Returns the width of a column: the resized width, or else the configured one
+    public getColumnWidth(key: string): number | undefined {
+        return this.state.columnWidths.get(key) ?? this.state.columnDefs[key]?.width;
+    }
+
+    // Builds the column order and definitions from the configuration
+    #getConfiguredColumns(): {
+        columns: string[];
+        columnDefs: Record<string, ColumnDef<T>>;
+    } {
+        const defs = this.#config.getColumnDefs();
+        // The columns of a group are kept together, where its first column is configured
+        const groupKeys = Array.from(this.#columnGroupPaths.keys());
+        const placedGroups = new Set<ColumnGroup>();
+        const columns: string[] = [];
+        defs.forEach(({ key }) => {
+            const group = this.#columnGroupPaths.get(key)?.[0];
+            if (!group) {
+                columns.push(key);
+            } else if (!placedGroups.has(group)) {
+                placedGroups.add(group);
+                columns.push(
+                    ...groupKeys.filter(
+                        (groupKey) => this.#columnGroupPaths.get(groupKey)![0] === group
+                    )
+                );
+            }
+        });
+        return {
+            columns,
+            columnDefs: Object.fromEntries(defs.map((def) => [def.key, def])),
+        };
+    }
+
+    // Returns the groups above a column, outermost first (empty for ungrouped columns)
+    public getColumnGroupPath(key: string): ReadonlyArray<ColumnGroup> {
+        return this.#columnGroupPaths.get(key) ?? [];
+    }
+
+    // Drops filters on columns that are not filterable
+    #dropUnfilterable(filters: Record<string, string>): Record<string, string> {
+        return Object.fromEntries(
+            Object.entries(filters).filter(([key]) => {
+                const filterable = this.state.columnDefs[key]?.filterable !== false;
+                if (filterable && this.getColumnPath(key) !== null) return true;
+                this.log(LogLevel.WARN, `Column '${key}' is not filterable, filter ignored.`);
+                return false;
+            })
+        );
+    }
+
     // Resets the instance to its initial state
     public reset(): void {
         this.log(LogLevel.INFO, 'Resetting instance to initial state.');
         if (this.persistState) localStorage.removeItem(this.storageKey);
         this.stateManager.setState((draft) => {
-            const configOptions = this.#config.options;
             draft.currentPage = 1;
             (draft.filters as Record<string, string>) = {};
             (draft.sortConditions as SortCondition[]) = [];
-            (draft.columns as string[]) = [...(configOptions.columns || [])];
-            (draft.columnTitles as string[]) = [
-                ...(configOptions.columnTitles || configOptions.columns || []),
-            ];
-            (draft.headerCellClasses as string[]) = [...(configOptions.headerCellClasses || [])];
+            const { columns, columnDefs } = this.#getConfiguredColumns();
+            (draft.columns as string[]) = columns;
+            (draft.columnDefs as Record<string, ColumnDef<T>>) = columnDefs;
             (draft.columnWidths as Map<string, number>) = new Map();
+            (draft.cursors as Array<string | null>) = [];
         });
         this.clearFormatCache();
         this.#debouncedLoadData();
@@ -563,61 +1007,209 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         this.log(LogLevel.INFO, 'Updating parameters.', params);
         this.stateManager.setState((draft) => {
             Object.assign(draft, params);
+            if (params.filters) draft.filters = this.#dropUnfilterable({ ...params.filters });
         });
         this.clearFormatCache();
         this.#debouncedLoadData();
     }
 
+    // Checks whether the given load generation is still the most recent one
+    #isCurrentLoad(generation: number): boolean {
+        return generation === this.#loadGeneration;
+    }
+
     // Handles a cached response by updating state and rendering
-    async #handleCachedResponse(cached: CacheData<T>): Promise<void> {
+    async #handleCachedResponse(
+        cached: CacheData<T>,
+        generation: number,
+        mode: LoadMode
+    ): Promise<void> {
+        if (!this.#isCurrentLoad(generation)) {
+            this.log(LogLevel.INFO, 'Discarding stale cached response for URL:', cached.url);
+            return;
+        }
         this.log(LogLevel.INFO, 'Using cached response for URL:', cached.url);
-        this.stateManager.setState((draft) => {
-            (draft.data as T[]) = cached.data;
-            draft.totalRecords = cached.totalRecords;
-        });
+        const result: DataSourceResult<T> = {
+            data: cached.data,
+            totalRecords: cached.totalRecordsKnown === false ? undefined : cached.totalRecords,
+            nextCursor: cached.nextCursor,
+            prevCursor: cached.prevCursor,
+        };
+        this.stateManager.setState((draft) =>
+            this.#applyPageResult(draft, result, mode === 'append')
+        );
         this.renderer.render();
         this.eventManager.setupAllHandlers();
-        if (this.preloadNextPageEnabled) this.cacheManager.preloadNextPage();
+        if (this.prefetch) this.cacheManager.prefetchPages();
+    }
+
+    // Applies a loaded page to the state, recording cursors in cursor pagination mode
+    #applyPageResult(
+        draft: Draft<SnapRecordsState<T>>,
+        result: DataSourceResult<T>,
+        append: boolean
+    ): void {
+        const page = draft.currentPage;
+        const rows = this.#sortByComputedColumns(result.data);
+        (draft.data as T[]) = append ? [...(draft.data as T[]), ...rows] : rows;
+        draft.totalRecordsKnown = typeof result.totalRecords === 'number';
+        // Without a server total, count the records seen so far
+        draft.totalRecords = draft.totalRecordsKnown
+            ? (result.totalRecords as number)
+            : (page - 1) * draft.rowsPerPage + result.data.length;
+        if (!this.cursorPagination) return;
+        const cursors = draft.cursors as Array<string | null>;
+        while (cursors.length < page) cursors.push(null);
+        cursors[0] = null;
+        if (page > 1 && !cursors[page - 2] && result.prevCursor)
+            cursors[page - 2] = result.prevCursor;
+        // Cursors beyond this page may be outdated, so only the next one is kept
+        cursors.splice(page);
+        if (result.nextCursor) cursors[page] = result.nextCursor;
+    }
+
+    // Drops recorded cursors when filters, sorting or page size change
+    #syncCursorScope(): void {
+        const { filters, sortConditions, rowsPerPage, currentPage, cursors } = this.state;
+        const scope = JSON.stringify([filters, sortConditions, rowsPerPage]);
+        if (scope !== this.#cursorScope) {
+            this.#cursorScope = scope;
+            this.stateManager.setState((draft) => {
+                (draft.cursors as Array<string | null>) = [];
+                draft.currentPage = 1;
+            });
+        } else if (currentPage > 1 && !cursors[currentPage - 1]) {
+            this.log(
+                LogLevel.WARN,
+                `No cursor known for page ${currentPage}, returning to page 1.`
+            );
+            this.stateManager.setState((draft) => {
+                draft.currentPage = 1;
+            });
+        }
+    }
+
+    // Loads data from the data source and processes the result
+    async #fetchAndProcessData(
+        params: ServerRequestParams,
+        url: string,
+        attempt: number,
+        generation: number,
+        signal: AbortSignal,
+        mode: LoadMode,
+        cached?: CacheData<T>
+    ): Promise<void> {
+        this.log(LogLevel.INFO, `Loading data for URL (Attempt ${attempt}): ${url}`);
+        if (this.lifecycleHooks.preDataLoad) this.lifecycleHooks.preDataLoad(params);
+        const validators =
+            cached && (cached.etag || cached.lastModified)
+                ? { etag: cached.etag, lastModified: cached.lastModified }
+                : undefined;
+        const data = await this.dataSource.load(params, { signal, validators });
+        if (data.notModified) {
+            if (!cached) {
+                throw new SnapRecordsDataError(
+                    `Not Modified response without a cached copy: ${url}`
+                );
+            }
+            await this.#processNotModifiedResponse(cached, generation, mode);
+            return;
+        }
+        await this.#processSuccessfulResponse(data, params, url, generation, mode);
     }
 
-    // Fetches data from the API and processes the response
-    async #fetchAndProcessData(url: string, attempt: number): Promise<void> {
-        this.log(LogLevel.INFO, `Fetching data from URL (Attempt ${attempt}): ${url}`);
-        if (this.lifecycleHooks.preDataLoad)
-            this.lifecycleHooks.preDataLoad(this.urlManager.getServerParams());
-        const response = await fetch(url);
-        if (!response.ok) throw new SnapRecordsDataError(`HTTP error! status: ${response.status}`);
-        const data = await response.json();
-        await this.#processSuccessfulResponse(data, url);
+    // Keeps the cached page after a 304 Not Modified answer, refreshing its timestamp
+    async #processNotModifiedResponse(
+        cached: CacheData<T>,
+        generation: number,
+        mode: LoadMode
+    ): Promise<void> {
+        if (!this.#isCurrentLoad(generation)) return;
+        this.log(LogLevel.INFO, 'Cached page not modified for URL:', cached.url);
+        await this.cacheManager.cacheData(cached.url, { ...cached, timestamp: Date.now() });
+        this.#setOfflineDataTimestamp(null);
+        // Background loads already show the cached page
+        if (mode !== 'silent') await this.#handleCachedResponse(cached, generation, mode);
     }
 
-    // Processes a successful API response
+    // Processes a successful data source result
     async #processSuccessfulResponse(
-        data: { data: T[]; totalRecords: number },
-        url: string
+        data: DataSourceResult<T>,
+        params: ServerRequestParams,
+        url: string,
+        generation: number,
+        mode: LoadMode
     ): Promise<void> {
+        // Drop responses that belong to a superseded request
+        if (!this.#isCurrentLoad(generation)) {
+            this.log(LogLevel.INFO, 'Discarding stale response for URL:', url);
+            return;
+        }
         const receivedData: T[] = data.data || [];
         this.log(LogLevel.INFO, 'Successfully fetched and processed data.', {
             url,
             totalRecords: data.totalRecords,
             receivedCount: receivedData.length,
         });
-        this.stateManager.setState((draft) => {
-            (draft.data as T[]) = receivedData;
-            draft.totalRecords = data.totalRecords || 0;
-        });
-        if (this.useCache)
-            await this.cacheManager.cacheData(url, {
-                url: url,
-                data: [...this.state.data],
-                totalRecords: this.state.totalRecords,
-                timestamp: Date.now(),
-            });
+        if (mode === 'silent' && this.#isSamePage(receivedData, data)) {
+            this.log(LogLevel.INFO, 'Background load returned an unchanged page.');
+            this.#setOfflineDataTimestamp(null);
+            await this.#cachePage(url, params, data, receivedData);
+            return;
+        }
+        // Selection and keyboard position are index based, so polls re-map them by record id
+        const selectedIds = this.getSelectedRows().map((row) => String(row.id));
+        const currentId = this.state.data[this.currentRowIndex]?.id;
+        this.stateManager.setState((draft) =>
+            this.#applyPageResult(draft, { ...data, data: receivedData }, mode === 'append')
+        );
+        if (mode === 'silent') this.#restoreRowPositions(selectedIds, currentId);
+        this.#setOfflineDataTimestamp(null);
+        await this.#cachePage(url, params, data, receivedData);
         if (this.lifecycleHooks.postDataLoad) this.lifecycleHooks.postDataLoad(this.state.data);
         this.clearFormatCache();
         this.renderer.render();
         this.eventManager.setupAllHandlers();
-        if (this.preloadNextPageEnabled) this.cacheManager.preloadNextPage();
+        if (this.prefetch) this.cacheManager.prefetchPages();
+    }
+
+    // Stores a loaded page in the cache, when caching is enabled
+    async #cachePage(
+        url: string,
+        params: ServerRequestParams,
+        result: DataSourceResult<T>,
+        records: T[]
+    ): Promise<void> {
+        if (!this.useCache) return;
+        await this.cacheManager.cacheData(url, {
+            url: url,
+            data: [...records],
+            totalRecords: this.state.totalRecords,
+            timestamp: Date.now(),
+            nextCursor: result.nextCursor,
+            prevCursor: result.prevCursor,
+            totalRecordsKnown: this.state.totalRecordsKnown,
+            etag: result.etag,
+            lastModified: result.lastModified,
+            tags: this.cacheManager.getCacheTags(params),
+        });
+    }
+
+    // Checks whether a background load returned the page that is already displayed
+    #isSamePage(records: T[], result: DataSourceResult<T>): boolean {
+        const { data, totalRecords, totalRecordsKnown, cursors, currentPage } = this.state;
+        if (typeof result.totalRecords === 'number') {
+            if (!totalRecordsKnown || result.totalRecords !== totalRecords) return false;
+        } else if (totalRecordsKnown) {
+            return false;
+        }
+        if (
+            this.cursorPagination &&
+            (result.nextCursor ?? null) !== (cursors[currentPage] ?? null)
+        ) {
+            return false;
+        }
+        return JSON.stringify(this.#sortByComputedColumns(records)) === JSON.stringify(data);
     }
 
     // Sets the language and reloads translations
@@ -659,13 +1251,82 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         };
     }
 
-    // Handles data load errors with retries
-    #handleDataLoadError(error: unknown, _attempt: number, url: string): void {
-        if (_attempt <= this.retryAttempts && !(error instanceof SnapRecordsDataError)) {
-            this.log(LogLevel.WARN, `Retry attempt ${_attempt} for URL:`, url, { error });
-            this.loadData(_attempt + 1);
+    // Handles a cached response served without a connection, flagging it as offline data
+    async #handleOfflineResponse(
+        cached: CacheData<T>,
+        generation: number,
+        mode: LoadMode
+    ): Promise<void> {
+        await this.#handleCachedResponse(cached, generation, mode);
+        if (!this.#isCurrentLoad(generation)) return;
+        this.log(LogLevel.WARN, 'Showing offline data cached at', new Date(cached.timestamp));
+        this.#setOfflineDataTimestamp(cached.timestamp);
+    }
+
+    // Records whether offline data is displayed and updates the banner
+    #setOfflineDataTimestamp(timestamp: number | null): void {
+        if (this.offlineDataTimestamp === timestamp) return;
+        this.offlineDataTimestamp = timestamp;
+        this.renderer.updateOfflineNotice();
+    }
+
+    // Handles data load errors, scheduling a retry with backoff when the policy allows it
+    async #handleDataLoadError(
+        error: unknown,
+        attempt: number,
+        url: string,
+        generation: number,
+        mode: LoadMode
+    ): Promise<void> {
+        // A failed poll keeps the records on screen; the next poll acts as the retry
+        if (mode === 'silent') {
+            this.log(LogLevel.WARN, 'Background refresh failed:', { error, url });
+            return;
+        }
+        const policy = this.retryPolicy;
+        // Retrying cannot succeed offline; the online event revalidates instead
+        if (
+            !this.#isDestroyed &&
+            navigator.onLine &&
+            attempt <= policy.attempts &&
+            isRetryable(error, policy)
+        ) {
+            const delayMs = getRetryDelay(attempt, error, policy);
+            this.log(LogLevel.WARN, `Retry attempt ${attempt} in ${delayMs}ms for URL:`, url, {
+                error,
+            });
+            if (this.lifecycleHooks.onRetry) {
+                this.lifecycleHooks.onRetry({
+                    attempt,
+                    maxAttempts: policy.attempts,
+                    delayMs,
+                    error,
+                });
+            }
+            this.#retryTimer = window.setTimeout(() => {
+                this.#retryTimer = null;
+                this.#nextLoadMode = mode;
+                this.loadData(attempt + 1);
+            }, delayMs);
+            return;
+        }
+        // Only a request that could not reach the server falls back to the newest cached copy,
+        // however old; HTTP and data errors are reported instead of hidden behind old records
+        const isNetworkFailure = error instanceof SnapRecordsNetworkError || !navigator.onLine;
+        const stale =
+            this.useCache && isNetworkFailure && url
+                ? await this.cacheManager.getCachedData(url, true)
+                : undefined;
+        if (stale) {
+            await this.#handleOfflineResponse(stale, generation, mode);
             return;
         }
+        // A failed append leaves the already loaded pages in place
+        if (mode === 'append') {
+            this.stateManager.setState((draft) => {
+                draft.currentPage -= 1;
+            });
+        }
         const errMessage = (
             this.state.translations ?? defaultTranslations
         ).errors.dataLoadingFailed.replace('{error}', (error as Error).message);
@@ -673,6 +1334,77 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
         this.renderer.showError(errMessage);
     }
 
+    // Re-applies selection and the keyboard position to the same records after a poll
+    #restoreRowPositions(selectedIds: string[], currentId: Identifiable['id'] | undefined): void {
+        const ids = this.state.data.map((row) => String(row.id));
+        this.selectedRows = new Set(
+            selectedIds.map((id) => ids.indexOf(id)).filter((index) => index !== -1)
+        );
+        this.currentRowIndex = currentId === undefined ? -1 : ids.indexOf(String(currentId));
+    }
+
+    // Finds the index of a record on the current page, matching ids as strings like data-key
+    #findRecordIndex(id: Identifiable['id']): number {
+        return this.state.data.findIndex((row) => String(row.id) === String(id));
+    }
+
+    // Drops the formatted values cached for a record
+    #clearRecordFormatCache(id: Identifiable['id']): void {
+        this.state.columns.forEach((column) => this.#formatCache.delete(`${id}_${column}`));
+    }
+
+    // Handles an upserted record that is not on the current page
+    #insertRecord(record: T, onInsert: LiveInsertPolicy): void {
+        if (onInsert === 'ignore') return;
+        if (onInsert === 'refresh') {
+            // Reloading lets the data source place the record according to sorting and filters
+            this.log(LogLevel.INFO, `Record ${record.id} inserted, refreshing.`);
+            this.refresh();
+            return;
+        }
+        // Prepend: feeds show new records at the top of the first page
+        const onFirstPage = this.state.currentPage === 1 || this.paginationMode !== 'pages';
+        this.stateManager.setState((draft) => {
+            draft.totalRecords += 1;
+            if (!onFirstPage) return;
+            (draft.data as T[]).unshift(record);
+            if (this.paginationMode === 'pages' && draft.data.length > draft.rowsPerPage) {
+                (draft.data as T[]).pop();
+            }
+        });
+        if (onFirstPage) {
+            this.selectedRows = new Set(
+                Array.from(this.selectedRows)
+                    .map((selected) => selected + 1)
+                    .filter((selected) => selected < this.state.data.length)
+            );
+            if (this.currentRowIndex >= 0) this.currentRowIndex++;
+        }
+        this.renderer.render();
+        this.eventManager.setupAllHandlers();
+    }
+
+    // Drops the cached and prefetched pages a record change outdates: the current one and any holding it
+    #invalidateRecordCache(id: Identifiable['id']): void {
+        if (this.dataSource instanceof LocalDataSource) return;
+        if (!this.useCache) {
+            this.cacheManager.clearPrefetched();
+            return;
+        }
+        // Deleted before a following refresh reads the cache, as IndexedDB runs them in order
+        const url = this.urlManager.buildUrl(this.urlManager.getServerParams());
+        this.cacheManager.invalidateCache(
+            (entry) => entry.url === url || entry.data.some((row) => String(row.id) === String(id))
+        );
+    }
+
+    // Cancels a retry that is waiting for its backoff delay
+    #clearRetryTimer(): void {
+        if (this.#retryTimer === null) return;
+        clearTimeout(this.#retryTimer);
+        this.#retryTimer = null;
+    }
+
     // Initializes the component by setting up containers, loading state, and fetching data
     async #initialize(): Promise<void> {
         this.log(LogLevel.INFO, 'Starting component initialization...');
@@ -706,6 +1438,10 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
             this.renderer.render();
             this.eventManager.setupAllHandlers();
             this.#debouncedLoadData();
+            this.liveUpdateManager?.start();
+            this.refreshManager?.start();
+            this.cacheManager.startMaintenance();
+            window.addEventListener('online', this.#boundOnlineHandler);
             this.log(LogLevel.INFO, 'Component initialization finished.');
         }
     }
@@ -714,20 +1450,55 @@ export class SnapRecords<T extends Identifiable & Record<string, unknown>> {
     #initializeProperties(options: SnapRecordsOptions<T>): void {
         this.log(LogLevel.LOG, 'Initializing instance properties from options.');
         // debug flag is already initialized in constructor before Configuration is used
-        this.baseUrl = options.url;
-        this.useCache = options.useCache ?? false;
+        this.baseUrl = options.url ?? '';
+        this.requestOptions = options.request ?? {};
+        this.responseAdapter = options.responseAdapter;
+        this.queryDialect = options.queryDialect ?? 'default';
+        this.querySerializer = options.querySerializer;
+        this.cursorPagination = options.cursorPagination ?? false;
+        this.paginationMode = options.paginationMode ?? 'pages';
+        this.virtualization = options.virtualization
+            ? {
+                  itemHeight: config.constants.virtualItemHeight,
+                  overscan: config.constants.virtualOverscan,
+                  height: config.constants.virtualViewportHeight,
+                  ...(options.virtualization === true ? {} : options.virtualization),
+              }
+            : null;
+        // Local records are already in memory, so there is nothing to cache or preload
+        this.useCache = !options.data && (options.useCache ?? false);
+        this.cacheStrategy = options.cacheStrategy ?? 'cache-first';
+        this.cacheTags = options.cacheTags;
+        this.cacheMaxEntries = options.cacheMaxEntries;
+        this.cacheMaxBytes = options.cacheMaxBytes;
         this.usePushState = options.usePushState ?? false;
-        this.columnFormatters = options.columnFormatters;
         this.debounceDelay = config.constants.defaultDebounceDelay;
         this.cacheExpiry = options.cacheExpiry ?? config.constants.defaultCacheExpiry;
         this.selectable = options.selectable ?? false;
         this.lifecycleHooks = options.lifecycleHooks ?? {};
         this.draggableColumns = options.draggableColumns ?? false;
-        this.preloadNextPageEnabled = options.preloadNextPage ?? false;
+        this.columnChooser = options.columnChooser ?? false;
+        this.columnMenu = options.columnMenu ?? false;
+        // preloadNextPage is the original shorthand for prefetching the next page
+        const prefetch = options.prefetch ?? options.preloadNextPage ?? false;
+        this.prefetch =
+            !options.data && prefetch
+                ? {
+                      ahead: 1,
+                      behind: 0,
+                      onHoverPage: false,
+                      ...(prefetch === true ? {} : prefetch),
+                  }
+                : null;
         this.lazyLoadMedia = options.lazyLoadMedia ?? false;
         this.persistState = options.persistState ?? false;
         this.destroyOnUnload = options.destroyOnUnload ?? true;
         this.retryAttempts = options.retryAttempts ?? 3;
+        this.retryPolicy = {
+            ...defaultRetryPolicy,
+            attempts: this.retryAttempts,
+            ...options.retryPolicy,
+        };
         this.formatCacheSize = options.formatCacheSize ?? 500;
         this.prevButtonConfig = { ...config.pagination.prevButton, ...options.prevButton };
         this.nextButtonConfig = { ...config.pagination.nextButton, ...options.nextButton };
@@ -12,30 +12,74 @@ import type { CacheData, Identifiable } from './SnapTypes.js';
     @template T - The type of records being cached, which must extend Identifiable and Record<string, unknown>.
 
     This class extends Dexie to provide a typed interface for storing and retrieving cached data
-    in an IndexedDB database. It defines a single table, `cache`, which uses the record's URL as the primary key.
+    in an IndexedDB database. It defines a `cache` table, which uses the record's URL as the primary key
+    and indexes the timestamp and the multi-valued cache tags, and a `meta` table holding the cache version.
     The class handles database initialization, schema definition, and error logging during database opening.
 
 ==========================================================================================================*/
 
+// Prefix of every SnapRecords database name
+export const dbNamePrefix = 'SnapRecordsDB_';
+
+// Interface for a metadata entry of the database
+interface MetaEntry {
+    // Metadata key
+    key: string;
+    // Metadata value
+    value: string;
+}
+
 export class SnapRecordsDB<T extends Identifiable & Record<string, unknown>> extends Dexie {
     // Table for storing cached data
     cache!: Table<CacheData<T>, string>;
+    // Table for storing metadata such as the cache version
+    meta!: Table<MetaEntry, string>;
 
-    // Constructor initializes the IndexedDB database with a specific name
-    constructor(name: string) {
+    // Constructor initializes the IndexedDB database with a specific name and optional cache version
+    constructor(name: string, cacheVersion?: string | number) {
         // Initialize Dexie with the provided name
         super(name);
-        // Define database version and schema
-        const dbVersion = 1.0;
-        this.version(dbVersion).stores({
+        // Define database versions and schema
+        this.version(1.0).stores({
             // Define cache table with URL as the primary key
             cache: 'url, timestamp',
         });
+        // Version 2 indexes the cache tags used for invalidation
+        this.version(2.0).stores({
+            cache: 'url, timestamp, *tags',
+        });
+        // Version 3 adds the metadata table
+        this.version(3.0).stores({
+            cache: 'url, timestamp, *tags',
+            meta: 'key',
+        });
+        // Entries written under another cache version are wiped before any query runs
+        if (cacheVersion !== undefined) {
+            this.on('ready', (db: Dexie) => syncCacheVersion(db, String(cacheVersion)));
+        }
         // Open the database, logging errors to the console if it fails
         this.open().catch(() => {
             // Error is automatically logged to the browser console
         });
     }
+
+    // Deletes every SnapRecords database in the browser (e.g., on logout), returning their number
+    static async deleteAll(): Promise<number> {
+        const names = (await Dexie.getDatabaseNames()).filter((name) =>
+            name.startsWith(dbNamePrefix)
+        );
+        await Promise.all(names.map((name) => Dexie.delete(name)));
+        return names.length;
+    }
+}
+
+// Clears the cache when the stored cache version differs from the configured one
+async function syncCacheVersion(db: Dexie, version: string): Promise<void> {
+    const meta = db.table<MetaEntry, string>('meta');
+    const stored = await meta.get('cacheVersion');
+    if (stored?.value === version) return;
+    await db.table('cache').clear();
+    await meta.put({ key: 'cacheVersion', value: version });
 }
 
 /*========================================================================================================
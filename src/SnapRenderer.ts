@@ -1,8 +1,12 @@
 import {
     LogLevel,
+    ColumnDef,
     RenderType,
+    Translation,
+    ColumnGroup,
     ButtonType,
     Identifiable,
+    PinnedOffset,
     ISnapRenderer,
     OrderDirection,
 } from './SnapTypes.js';
@@ -52,6 +56,14 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
     private totalsElement: HTMLElement | null = null;
     // Element containing pagination controls
     private paginationElement: HTMLElement | null = null;
+    // Pending animation frame re-rendering the virtualized window on scroll
+    #virtualFrame: number | null = null;
+    // Item heights measured from the rendered window per container, replacing the estimate
+    #measuredItemHeights = new WeakMap<HTMLElement, number>();
+    // Sticky positions of the pinned visible columns, by column key
+    #pinnedOffsets = new Map<string, PinnedOffset>();
+    // Rendered column group header cells, with the keys of the columns they span
+    #groupHeaderCells = new Map<HTMLElement, string[]>();
 
     // Constructor initializes the renderer with the parent instance and content container
     constructor(parent: SnapRecords<T>, contentContainer: HTMLElement) {
@@ -94,6 +106,7 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         this.parent.errorContainer.classList.add(config.classes.errorContainer);
         this.parent.errorContainer.style.display = 'none';
         this.parent.container.appendChild(this.parent.errorContainer);
+        this.updateOfflineNotice();
         // Ensure the container has a non-static position for overlays
         if (getComputedStyle(this.parent.container).position === 'static') {
             this.parent.container.style.position = 'relative';
@@ -181,19 +194,158 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         }
     }
 
+    // Shows the offline banner while cached data is displayed offline, removing it otherwise
+    public updateOfflineNotice(): void {
+        const timestamp = this.parent.offlineDataTimestamp;
+        let banner = this.parent.container.querySelector<HTMLElement>(
+            `.${config.classes.offlineBanner}`
+        );
+        if (timestamp === null || !this.parent.state.translations) {
+            banner?.remove();
+            return;
+        }
+        if (!banner) {
+            banner = document.createElement('div');
+            banner.className = config.classes.offlineBanner;
+            banner.setAttribute('role', 'status');
+            this.parent.container.insertBefore(banner, this.contentContainer);
+        }
+        const time = new Date(timestamp).toLocaleString(
+            this.parent.state.language.replace('_', '-')
+        );
+        banner.textContent = this.parent.state.translations.offlineData.replace('{time}', time);
+    }
+
+    // Renders the "Columns" toolbar button and its popover of checkboxes, when enabled
+    public updateColumnChooser(): void {
+        const translations = this.parent.state.translations;
+        let toolbar = this.parent.container.querySelector<HTMLElement>(
+            `.${config.classes.toolbar}`
+        );
+        if (!this.parent.columnChooser || !translations) {
+            toolbar?.remove();
+            return;
+        }
+        if (!toolbar) {
+            toolbar = document.createElement('div');
+            toolbar.className = config.classes.toolbar;
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = config.classes.columnsButton;
+            button.setAttribute('aria-haspopup', 'true');
+            button.setAttribute('aria-expanded', 'false');
+            const popover = document.createElement('div');
+            popover.className = config.classes.columnChooser;
+            popover.setAttribute('role', 'group');
+            popover.hidden = true;
+            toolbar.append(button, popover);
+            this.parent.container.insertBefore(toolbar, this.parent.container.firstChild);
+        }
+        const button = toolbar.querySelector<HTMLButtonElement>(
+            `.${config.classes.columnsButton}`
+        )!;
+        const popover = toolbar.querySelector<HTMLElement>(`.${config.classes.columnChooser}`)!;
+        button.textContent = translations.columns;
+        popover.setAttribute('aria-label', translations.columns);
+        // The popover keeps its open state; only its checkboxes are rebuilt
+        popover.innerHTML = '';
+        this.parent.state.columns.forEach((key) => {
+            const def = this.parent.state.columnDefs[key];
+            const label = document.createElement('label');
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.dataset.colId = key;
+            checkbox.checked = def.visible !== false;
+            label.append(checkbox, ` ${def.title ?? key}`);
+            popover.appendChild(label);
+        });
+    }
+
+    // Opens or closes the column chooser popover
+    public toggleColumnChooser(open?: boolean): void {
+        const button = this.parent.container.querySelector<HTMLElement>(
+            `.${config.classes.columnsButton}`
+        );
+        const popover = this.parent.container.querySelector<HTMLElement>(
+            `.${config.classes.columnChooser}`
+        );
+        if (!button || !popover) return;
+        const isOpen = open ?? popover.hidden;
+        popover.hidden = !isOpen;
+        button.setAttribute('aria-expanded', String(isOpen));
+    }
+
+    // Opens the header menu of a column, or closes the open one (toggles for the same column)
+    public toggleColumnMenu(key?: string): void {
+        const openMenu = this.parent.container.querySelector<HTMLElement>(
+            `.${config.classes.columnMenu}`
+        );
+        if (openMenu) {
+            openMenu.remove();
+            this.tableHeader
+                ?.querySelectorAll(`.${config.classes.columnMenuButton}`)
+                .forEach((button) => button.setAttribute('aria-expanded', 'false'));
+            if (key === undefined || openMenu.dataset.colId === key) return;
+        }
+        const translations = this.parent.state.translations;
+        const def = key !== undefined ? this.parent.state.columnDefs[key] : undefined;
+        const th = this.tableHeader?.querySelector<HTMLElement>(`th[data-col-id="${key}"]`);
+        if (!translations || !def || !th) return;
+
+        const menu = document.createElement('div');
+        menu.className = config.classes.columnMenu;
+        menu.dataset.colId = def.key;
+        menu.setAttribute('role', 'menu');
+        menu.setAttribute('aria-label', def.title ?? def.key);
+        const actions: [string, string][] = [
+            ['left', translations.pinLeft],
+            ['right', translations.pinRight],
+            ['', translations.unpin],
+        ];
+        actions.forEach(([pin, label]) => {
+            const item = document.createElement('button');
+            item.type = 'button';
+            item.dataset.pin = pin;
+            item.setAttribute('role', 'menuitem');
+            item.textContent = label;
+            // The action matching the current state has nothing to do
+            item.disabled = (def.pinned ?? '') === pin;
+            menu.appendChild(item);
+        });
+
+        // Position the menu below the header cell, inside the positioned container
+        const containerRect = this.parent.container.getBoundingClientRect();
+        const thRect = th.getBoundingClientRect();
+        menu.style.top = `${thRect.bottom - containerRect.top}px`;
+        menu.style.left = `${thRect.left - containerRect.left}px`;
+        this.parent.container.appendChild(menu);
+        th.querySelector(`.${config.classes.columnMenuButton}`)?.setAttribute(
+            'aria-expanded',
+            'true'
+        );
+        menu.querySelector<HTMLButtonElement>('button:not([disabled])')?.focus();
+    }
+
+    // Returns the sticky position of a pinned visible column
+    public getPinnedOffset(key: string): PinnedOffset | undefined {
+        return this.#pinnedOffsets.get(key);
+    }
+
     // Applies column widths to table headers
     public applyColumnWidths(): void {
         // Use requestAnimationFrame for smooth rendering
         requestAnimationFrame(() => {
-            this.parent.state.columns.forEach((col, index) => {
-                const width = this.parent.state.columnWidths.get(col as string);
+            this.parent.getVisibleColumns().forEach(({ key }) => {
+                const width = this.parent.getColumnWidth(key);
                 if (width) {
                     const header = this.tableHeader?.querySelector<HTMLElement>(
-                        `th:nth-child(${index + 1})`
+                        `th[data-col-id="${key}"]`
                     );
                     if (header) header.style.width = `${width}px`;
                 }
             });
+            // Pinned columns after a resized one move with it
+            if (this.#pinnedOffsets.size > 0) this.#applyPinnedColumns();
         });
     }
 
@@ -213,6 +365,8 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
 
     // Highlights the current row for keyboard navigation
     public highlightCurrentRow(): void {
+        // Off-screen rows are not in the DOM until the virtualized window reaches them
+        if (this.parent.virtualization) this.#scrollToItem(this.parent.currentRowIndex);
         const selector = 'tr[data-index], li[data-index], .snap-mobile-card[data-index]';
         this.contentContainer.querySelectorAll(selector).forEach((el: Element) => {
             const element = el as HTMLElement;
@@ -237,16 +391,11 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
 
         // Ensure the correct container is set up
         this.#ensureCorrectContainer(this.parent.state.format);
+        this.updateColumnChooser();
 
         // Render content based on format
-        if (this.parent.state.format === RenderType.TABLE) {
-            this.#renderTableHeaderContents();
-            this.#refreshTableBody();
-        } else if (this.parent.state.format === RenderType.LIST) {
-            this.#refreshListBody();
-        } else if (this.parent.state.format === RenderType.MOBILE_CARDS) {
-            this.#refreshMobileCards();
-        }
+        if (this.parent.state.format === RenderType.TABLE) this.#renderTableHeaderContents();
+        this.#refreshBody();
 
         // Update footer with pagination and totals
         this.#updateFooter();
@@ -256,6 +405,44 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         log(this.parent.debug, LogLevel.INFO, 'Render process finished.');
     }
 
+    // Re-renders the element of a single record, if it is rendered
+    public updateItem(row: T, index: number): void {
+        const element = this.#findItemElement(row.id.toString());
+        if (!element) return;
+        switch (this.parent.state.format) {
+            case RenderType.TABLE:
+                this.parent.updateRow(element as HTMLTableRowElement, row, index);
+                break;
+            case RenderType.LIST:
+                this.parent.updateListItem(element as HTMLLIElement, row, index);
+                break;
+            case RenderType.MOBILE_CARDS:
+                this.parent.updateMobileCard(element as HTMLDivElement, row, index);
+                break;
+        }
+        element.classList.toggle(config.classes.selected, this.parent.selectedRows.has(index));
+    }
+
+    // Removes the element of a single record, shifting the indices of the elements after it
+    public removeItem(key: string): void {
+        const element = this.#findItemElement(key);
+        // Virtualized windows and emptied pages need spacers or the no-data message recomputed
+        if (this.parent.virtualization || this.parent.state.data.length === 0) {
+            this.render();
+            return;
+        }
+        if (element) {
+            let sibling = element.nextElementSibling as HTMLElement | null;
+            element.remove();
+            for (; sibling; sibling = sibling.nextElementSibling as HTMLElement | null) {
+                const index = parseInt(sibling.dataset.index ?? '', 10);
+                if (!isNaN(index)) sibling.setAttribute('data-index', (index - 1).toString());
+            }
+            this.highlightSelectedRows();
+        }
+        this.#updateFooter();
+    }
+
     // Announces updates for screen readers
     public announceScreenReaderUpdate(message: string): void {
         // Create a live region for accessibility
@@ -272,6 +459,7 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
     // Cleans up the renderer by clearing the container
     public destroy(): void {
         log(this.parent.debug, LogLevel.INFO, 'Destroying renderer and clearing container HTML.');
+        if (this.#virtualFrame !== null) cancelAnimationFrame(this.#virtualFrame);
         this.parent.container.innerHTML = '';
     }
 
@@ -282,12 +470,22 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         this.contentContainer.appendChild(this.footerElement);
     }
 
+    // Refreshes the records of the current rendering mode
+    #refreshBody(): void {
+        if (this.parent.state.format === RenderType.TABLE) {
+            this.#refreshTableBody();
+        } else if (this.parent.state.format === RenderType.LIST) {
+            this.#refreshListBody();
+        } else if (this.parent.state.format === RenderType.MOBILE_CARDS) {
+            this.#refreshMobileCards();
+        }
+    }
+
     // Refreshes the table body with current data
     #refreshTableBody(): void {
         if (!this.tableBody) return;
-        this.#reconcileItems(
+        this.#renderItems(
             this.tableBody,
-            this.parent.state.data,
             (row, index) => this.parent.createTableRow(row, index, row.id),
             (el, row, index) => this.parent.updateRow(el, row, index)
         );
@@ -296,9 +494,8 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
     // Refreshes the list body with current data
     #refreshListBody(): void {
         if (!this.listContainer) return;
-        this.#reconcileItems(
+        this.#renderItems(
             this.listContainer,
-            this.parent.state.data,
             (row, index) => this.parent.createListItem(row, index),
             (el, row, index) => this.parent.updateListItem(el, row, index)
         );
@@ -307,14 +504,189 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
     // Refreshes mobile cards with current data
     #refreshMobileCards(): void {
         if (!this.cardsContainer) return;
-        this.#reconcileItems(
+        this.#renderItems(
             this.cardsContainer,
-            this.parent.state.data,
             (row, index) => this.parent.createMobileCard(row, index),
             (el, row, index) => this.parent.updateMobileCard(el, row, index)
         );
     }
 
+    // Renders every record, or only the visible window when virtualization is enabled
+    #renderItems<K extends HTMLElement>(
+        container: HTMLElement,
+        renderer: (item: T, index: number) => K,
+        updateFn: (el: K, item: T, index: number) => void
+    ): void {
+        const data = this.parent.state.data;
+        const scroller = this.#getScrollContainer();
+        if (!this.parent.virtualization || !scroller || data.length === 0) {
+            this.#reconcileItems(container, data, renderer, updateFn);
+            return;
+        }
+        const { firstRow, lastRow, perRow, rowCount, itemHeight } = this.#getVirtualWindow(
+            container,
+            scroller
+        );
+        const start = firstRow * perRow;
+        this.#reconcileItems(
+            container,
+            data.slice(start, Math.min(data.length, lastRow * perRow)),
+            renderer,
+            updateFn,
+            start
+        );
+        // Spacers keep the scrollbar sized for every record
+        container.insertBefore(
+            this.#createSpacer(container, firstRow * itemHeight),
+            container.firstChild
+        );
+        container.appendChild(this.#createSpacer(container, (rowCount - lastRow) * itemHeight));
+        this.#measureItemHeight(container, perRow);
+        // Elements entering the window need the selection and keyboard highlight re-applied
+        this.highlightSelectedRows();
+        container.querySelectorAll<HTMLElement>('[data-index]').forEach((el) => {
+            const isCurrent = parseInt(el.dataset.index!, 10) === this.parent.currentRowIndex;
+            el.classList.toggle(config.classes.currentRow, isCurrent);
+        });
+    }
+
+    // Returns the element holding the records of the current rendering mode
+    #getItemsContainer(): HTMLElement | null {
+        switch (this.parent.state.format) {
+            case RenderType.TABLE:
+                return this.tableBody;
+            case RenderType.LIST:
+                return this.listContainer;
+            case RenderType.MOBILE_CARDS:
+                return this.cardsContainer;
+        }
+    }
+
+    // Finds the rendered element of a record by its data-key
+    #findItemElement(key: string): HTMLElement | null {
+        const container = this.#getItemsContainer();
+        if (!container) return null;
+        return (
+            Array.from(container.children as HTMLCollectionOf<HTMLElement>).find(
+                (element) => element.dataset.key === key
+            ) ?? null
+        );
+    }
+
+    // Returns the scrollable element of the current rendering mode
+    #getScrollContainer(): HTMLElement | null {
+        switch (this.parent.state.format) {
+            case RenderType.TABLE:
+                return this.tableElement?.parentElement ?? null;
+            case RenderType.LIST:
+                return this.listContainer;
+            case RenderType.MOBILE_CARDS:
+                return this.cardsContainer;
+        }
+    }
+
+    // Makes an element the scroll viewport of a virtualized view
+    #setupVirtualScroller(scroller: HTMLElement): void {
+        if (!this.parent.virtualization) return;
+        scroller.classList.add(config.classes.virtualScroller);
+        scroller.style.maxHeight = `${this.parent.virtualization.height}px`;
+        scroller.style.overflowY = 'auto';
+        scroller.addEventListener('scroll', this.#handleVirtualScroll, { passive: true });
+    }
+
+    // Re-renders the virtualized window at most once per animation frame while scrolling
+    #handleVirtualScroll = (): void => {
+        if (this.#virtualFrame !== null) return;
+        this.#virtualFrame = requestAnimationFrame(() => {
+            this.#virtualFrame = null;
+            this.#refreshBody();
+        });
+    };
+
+    // Calculates which rows of items fall inside the viewport, plus overscan
+    #getVirtualWindow(
+        container: HTMLElement,
+        scroller: HTMLElement
+    ): { firstRow: number; lastRow: number; perRow: number; rowCount: number; itemHeight: number } {
+        const { overscan, height } = this.parent.virtualization!;
+        const itemHeight = this.#getItemHeight(container);
+        const perRow = this.#getItemsPerRow(container);
+        const rowCount = Math.ceil(this.parent.state.data.length / perRow);
+        const visibleRows = Math.ceil((scroller.clientHeight || height) / itemHeight);
+        // The table body starts below the header inside the scroller
+        const offset = container === this.tableBody ? (this.tableHeader?.offsetHeight ?? 0) : 0;
+        const scrolledRow = Math.min(
+            Math.max(0, rowCount - visibleRows),
+            Math.max(0, Math.floor((scroller.scrollTop - offset) / itemHeight))
+        );
+        return {
+            firstRow: Math.max(0, scrolledRow - overscan),
+            lastRow: Math.min(rowCount, scrolledRow + visibleRows + overscan),
+            perRow,
+            rowCount,
+            itemHeight,
+        };
+    }
+
+    // Returns the measured item height, falling back to the configured estimate
+    #getItemHeight(container: HTMLElement): number {
+        return this.#measuredItemHeights.get(container) ?? this.parent.virtualization!.itemHeight;
+    }
+
+    // Returns how many items share a visual row (more than one for the cards grid)
+    #getItemsPerRow(container: HTMLElement): number {
+        if (container !== this.cardsContainer) return 1;
+        const style = getComputedStyle(container);
+        if (style.display !== 'grid') return 1;
+        return style.gridTemplateColumns.split(' ').filter(Boolean).length || 1;
+    }
+
+    // Measures the real item height from the rendered window
+    #measureItemHeight(container: HTMLElement, perRow: number): void {
+        const items = container.querySelectorAll<HTMLElement>('[data-key]');
+        if (items.length === 0) return;
+        // The distance between consecutive rows includes borders and grid gaps
+        const measured =
+            items.length > perRow
+                ? items[perRow].offsetTop - items[0].offsetTop
+                : items[0].offsetHeight;
+        if (measured > 0) this.#measuredItemHeights.set(container, measured);
+    }
+
+    // Creates an empty element standing in for the items outside the virtualized window
+    #createSpacer(container: HTMLElement, height: number): HTMLElement {
+        let spacer: HTMLElement;
+        if (container.tagName === 'TBODY') {
+            spacer = document.createElement('tr');
+            const cell = document.createElement('td');
+            cell.colSpan = this.parent.getVisibleColumns().length;
+            spacer.appendChild(cell);
+        } else {
+            spacer = document.createElement(container.tagName === 'UL' ? 'li' : 'div');
+        }
+        spacer.classList.add(config.classes.virtualSpacer);
+        spacer.setAttribute('aria-hidden', 'true');
+        spacer.style.height = `${height}px`;
+        return spacer;
+    }
+
+    // Scrolls the virtualized viewport so the item at the given index is rendered and visible
+    #scrollToItem(index: number): void {
+        const scroller = this.#getScrollContainer();
+        const container = this.#getItemsContainer();
+        if (index < 0 || !scroller || !container) return;
+        const itemHeight = this.#getItemHeight(container);
+        const viewport = scroller.clientHeight || this.parent.virtualization!.height;
+        const offset = container === this.tableBody ? (this.tableHeader?.offsetHeight ?? 0) : 0;
+        const itemTop = offset + Math.floor(index / this.#getItemsPerRow(container)) * itemHeight;
+        if (itemTop < scroller.scrollTop) {
+            scroller.scrollTop = itemTop;
+        } else if (itemTop + itemHeight > scroller.scrollTop + viewport) {
+            scroller.scrollTop = itemTop + itemHeight - viewport;
+        }
+        this.#refreshBody();
+    }
+
     // Creates a pagination button
     #createPaginationButton(
         content: string,
@@ -355,7 +727,8 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         container: HTMLElement,
         data: ReadonlyArray<T>,
         renderer: (item: T, index: number) => K,
-        updateFn: (el: K, item: T, index: number) => void
+        updateFn: (el: K, item: T, index: number) => void,
+        indexOffset: number = 0
     ): void {
         // Map existing elements by their data-key
         const domMap = new Map<string, K>();
@@ -363,34 +736,43 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
             domMap.set(el.dataset.key!, el);
         });
 
-        // Create a document fragment for efficient DOM updates
-        const fragment = document.createDocumentFragment();
-        data.forEach((item, index) => {
+        // Walk the data in order, reusing keyed elements and only moving those out of place,
+        // so rows that are already rendered (e.g. before appended pages) stay in the DOM
+        let nextSibling: ChildNode | null = container.firstChild;
+        data.forEach((item, position) => {
+            const index = indexOffset + position;
             const key = item.id.toString();
             const existingEl = domMap.get(key);
-            let elToAppend: K;
+            let element: K;
 
             if (existingEl) {
                 // Update existing element
                 updateFn(existingEl, item, index);
-                elToAppend = existingEl;
+                element = existingEl;
                 domMap.delete(key);
             } else {
                 // Create new element
-                elToAppend = renderer(item, index);
+                element = renderer(item, index);
+            }
+            if (element === nextSibling) {
+                nextSibling = element.nextSibling;
+            } else {
+                container.insertBefore(element, nextSibling);
             }
-            fragment.appendChild(elToAppend);
         });
 
-        // Clear container and append updated elements
-        container.innerHTML = '';
-        container.appendChild(fragment);
+        // Remove elements left over from previous data and any non-keyed content
+        while (nextSibling) {
+            const stale: ChildNode = nextSibling;
+            nextSibling = stale.nextSibling;
+            stale.remove();
+        }
 
         // Display no-data message if data is empty
         if (data.length === 0 && this.parent.state.translations) {
             this.#renderNoDataMessage(
                 container,
-                container.tagName === 'TBODY' ? this.parent.state.columns.length : 1
+                container.tagName === 'TBODY' ? this.parent.getVisibleColumns().length : 1
             );
         }
     }
@@ -415,6 +797,11 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
             this.tableElement?.querySelector(`.${config.classes.footerContainer}`) ??
             this.footerElement;
         if (!footerTarget || !this.parent.state.translations) return;
+        // The table footer cell spans the visible columns, which change without a table rebuild
+        const footerCell = footerTarget.parentElement;
+        if (footerCell instanceof HTMLTableCellElement) {
+            footerCell.colSpan = this.parent.getVisibleColumns().length;
+        }
 
         footerTarget.innerHTML = '';
         this.totalsElement = this.#createTotalsElement();
@@ -435,6 +822,7 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         this.tableElement.setAttribute('role', 'grid');
         responsiveWrapper.appendChild(this.tableElement);
         this.contentContainer.appendChild(responsiveWrapper);
+        this.#setupVirtualScroller(responsiveWrapper);
 
         // Create table header
         this.tableHeader = this.tableElement.createTHead();
@@ -449,7 +837,7 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         tfoot.classList.add(...config.classes.table.footerClass.split(' '));
         const footerRow = tfoot.insertRow();
         const footerCell = footerRow.insertCell();
-        footerCell.colSpan = this.parent.state.columns.length;
+        footerCell.colSpan = this.parent.getVisibleColumns().length;
         const footerDiv = document.createElement('div');
         footerDiv.classList.add(config.classes.footerContainer);
         footerCell.appendChild(footerDiv);
@@ -461,6 +849,7 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         this.cardsContainer = document.createElement('div');
         this.cardsContainer.classList.add(config.classes.mobileCardsContainer);
         this.contentContainer.appendChild(this.cardsContainer);
+        this.#setupVirtualScroller(this.cardsContainer);
         this.#renderNonTableFooter();
     }
 
@@ -470,72 +859,172 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         this.listContainer = document.createElement('ul');
         this.listContainer.classList.add(...config.classes.list.containerClass.split(' '));
         this.contentContainer.appendChild(this.listContainer);
+        this.#setupVirtualScroller(this.listContainer);
         this.#renderNonTableFooter();
     }
 
     // Renders the table header contents
     #renderTableHeaderContents(): void {
-        if (!this.tableHeader || !this.parent.state.translations) return;
-        this.tableHeader.innerHTML = '';
-        const headerRow = this.tableHeader.insertRow();
-        headerRow.setAttribute('role', 'row');
-        this.parent.state.columns.forEach((col: string, idx: number) => {
-            const th = document.createElement('th');
-            th.setAttribute('role', 'columnheader');
-            th.setAttribute('data-col-id', col);
-            // Apply saved column width
-            const width = this.parent.state.columnWidths.get(col);
-            if (width) th.style.width = `${width}px`;
-            // Apply custom header classes
-            if (this.parent.headerCellClasses[idx])
-                th.className = this.parent.headerCellClasses[idx];
-
-            // Check if the column is sortable
-            const isSortable = !this.parent.headerCellClasses[idx]?.includes('no-sorting');
-            if (isSortable) {
-                const link = document.createElement('a');
-                link.href = '#';
-                link.innerHTML = this.parent.state.columnTitles[idx] as string;
-                link.setAttribute('role', 'button');
-
-                // Apply sorting indicators
-                const sortItem = this.parent.state.sortConditions.find((item) => item[0] === col);
-                if (sortItem) {
-                    const sortClass =
-                        sortItem[1] === OrderDirection.ASC
-                            ? config.classes.sortAscOrder
-                            : config.classes.sortDescOrder;
-                    link.classList.add(sortClass);
-                    link.setAttribute(
-                        'aria-sort',
-                        sortItem[1] === 'ASC' ? 'ascending' : 'descending'
-                    );
-                } else {
-                    link.classList.add(config.classes.sortNoOrder);
-                    link.setAttribute('aria-sort', 'none');
-                }
-                th.appendChild(link);
+        const translations = this.parent.state.translations;
+        const tableHeader = this.tableHeader;
+        if (!tableHeader || !translations) return;
+        tableHeader.innerHTML = '';
+        this.#groupHeaderCells.clear();
+        // A re-rendered header leaves the open column menu without its button
+        this.parent.container.querySelector(`.${config.classes.columnMenu}`)?.remove();
+        const columns = this.parent.getVisibleColumns();
+        const paths = columns.map((def) => this.parent.getColumnGroupPath(def.key));
+        // One header row per group level, plus the row of the column headers
+        const depth = Math.max(0, ...paths.map((path) => path.length));
+        const headerRows = Array.from({ length: depth + 1 }, () => {
+            const row = tableHeader.insertRow();
+            row.setAttribute('role', 'row');
+            return row;
+        });
+        columns.forEach((def, index) => {
+            const path = paths[index];
+            // A group cell opens at its first visible column and spans the adjacent ones
+            path.forEach((group, level) => {
+                if (index > 0 && paths[index - 1][level] === group) return;
+                let span = 1;
+                while (paths[index + span]?.[level] === group) span++;
+                const keys = columns.slice(index, index + span).map(({ key }) => key);
+                headerRows[level].appendChild(this.#createGroupHeaderCell(group, keys));
+            });
+            const th = this.#createHeaderCell(def, translations);
+            // Columns with fewer groups above them reach down to the last header row
+            if (path.length < depth) th.rowSpan = depth + 1 - path.length;
+            headerRows[path.length].appendChild(th);
+        });
+        // Header cells are in the DOM now, so widths that are not set can be measured
+        this.#applyPinnedColumns();
+    }
+
+    // Creates the header cell of a column group, spanning the given visible columns
+    #createGroupHeaderCell(group: ColumnGroup, keys: string[]): HTMLTableCellElement {
+        const th = document.createElement('th');
+        th.setAttribute('role', 'columnheader');
+        th.setAttribute('scope', 'colgroup');
+        th.colSpan = keys.length;
+        th.className = config.classes.columnGroupHeader;
+        if (group.headerClass) th.classList.add(...group.headerClass.split(' ').filter(Boolean));
+        th.textContent = group.title;
+        this.#groupHeaderCells.set(th, keys);
+        return th;
+    }
+
+    // Creates the header cell of a column, with its sort link, menu button and resize handle
+    #createHeaderCell(def: ColumnDef<T>, translations: Translation): HTMLTableCellElement {
+        const col = def.key;
+        const th = document.createElement('th');
+        th.setAttribute('role', 'columnheader');
+        th.setAttribute('scope', 'col');
+        th.setAttribute('data-col-id', col);
+        // Apply saved or configured column width and its limits
+        const width = this.parent.getColumnWidth(col);
+        if (width) th.style.width = `${width}px`;
+        if (def.minWidth) th.style.minWidth = `${def.minWidth}px`;
+        if (def.maxWidth) th.style.maxWidth = `${def.maxWidth}px`;
+        if (def.align) th.style.textAlign = def.align;
+        // Apply custom header classes
+        if (def.headerClass) th.className = def.headerClass;
+
+        // Add the column menu button first, so it floats beside the title
+        if (this.parent.columnMenu) {
+            const menuButton = document.createElement('button');
+            menuButton.type = 'button';
+            menuButton.className = config.classes.columnMenuButton;
+            menuButton.textContent = '⋮';
+            menuButton.setAttribute('aria-label', translations.columnMenu);
+            menuButton.setAttribute('aria-haspopup', 'menu');
+            menuButton.setAttribute('aria-expanded', 'false');
+            th.appendChild(menuButton);
+        }
+
+        // Check if the column is sortable
+        if (this.parent.isColumnSortable(col)) {
+            const link = document.createElement('a');
+            link.href = '#';
+            link.innerHTML = def.title ?? col;
+            link.setAttribute('role', 'button');
+
+            // Apply sorting indicators
+            const sortItem = this.parent.state.sortConditions.find((item) => item[0] === col);
+            if (sortItem) {
+                const sortClass =
+                    sortItem[1] === OrderDirection.ASC
+                        ? config.classes.sortAscOrder
+                        : config.classes.sortDescOrder;
+                link.classList.add(sortClass);
+                link.setAttribute('aria-sort', sortItem[1] === 'ASC' ? 'ascending' : 'descending');
             } else {
-                th.textContent = this.parent.state.columnTitles[idx] as string;
+                link.classList.add(config.classes.sortNoOrder);
+                link.setAttribute('aria-sort', 'none');
             }
+            th.appendChild(link);
+        } else {
+            th.append(def.title ?? col);
+        }
 
-            // Enable dragging if configured
-            if (this.parent.draggableColumns) {
-                th.setAttribute('draggable', 'true');
-                th.classList.add(config.classes.draggableColumn);
-            }
+        // Enable dragging if configured
+        if (this.parent.draggableColumns) {
+            th.setAttribute('draggable', 'true');
+            th.classList.add(config.classes.draggableColumn);
+        }
+
+        // Add resize handle
+        const resizeHandle = document.createElement('div');
+        resizeHandle.className = config.classes.columnResizeHandle;
+        th.appendChild(resizeHandle);
+        return th;
+    }
 
-            // Add resize handle
-            const resizeHandle = document.createElement('div');
-            resizeHandle.className = config.classes.columnResizeHandle;
-            th.appendChild(resizeHandle);
-            headerRow.appendChild(th);
+    // Recomputes the sticky offsets of the pinned columns and applies them to rendered cells
+    #applyPinnedColumns(): void {
+        const hadPinned = this.#pinnedOffsets.size > 0;
+        this.#pinnedOffsets.clear();
+        const visible = this.parent.getVisibleColumns();
+        const widthOf = (key: string): number =>
+            this.parent.getColumnWidth(key) ??
+            this.tableHeader?.querySelector<HTMLElement>(`th[data-col-id="${key}"]`)?.offsetWidth ??
+            0;
+        // Offsets accumulate from each side of the table towards the scrolling columns
+        (['left', 'right'] as const).forEach((side) => {
+            const pinned = visible.filter((def) => def.pinned === side);
+            if (side === 'right') pinned.reverse();
+            let offset = 0;
+            pinned.forEach((def, index) => {
+                const edge = index === pinned.length - 1;
+                this.#pinnedOffsets.set(def.key, { side, offset, edge });
+                offset += widthOf(def.key);
+            });
+        });
+        // Cells only need updating when something is or was pinned
+        if (!hadPinned && this.#pinnedOffsets.size === 0) return;
+        this.contentContainer
+            .querySelectorAll<HTMLElement>('th[data-col-id], td[data-col-id]')
+            .forEach((cell) => this.parent.applyPinnedStyle(cell, cell.dataset.colId!));
+        // A group over columns pinned to one side sticks with its outermost column
+        this.#groupHeaderCells.forEach((keys, th) => {
+            const pins = keys.map((key) => this.#pinnedOffsets.get(key));
+            const side = pins[0]?.side;
+            const together = side !== undefined && pins.every((pin) => pin?.side === side);
+            const outerKey = side === 'left' ? keys[0] : keys[keys.length - 1];
+            this.parent.applyPinnedStyle(th, together ? outerKey : '');
+            if (together) {
+                th.classList.toggle(
+                    config.classes.pinnedEdge,
+                    pins.some((pin) => pin!.edge)
+                );
+            }
         });
     }
 
     // Creates the pagination element
     #createPaginationElement(): HTMLElement {
         const parentState = this.parent.state;
+        if (this.parent.paginationMode !== 'pages') return this.#createLoadMoreElement();
+        if (this.parent.cursorPagination) return this.#createCursorPaginationElement();
         // Calculate total pages
         const totalPages = Math.max(
             1,
@@ -608,21 +1097,92 @@ export class SnapRenderer<T extends Identifiable & Record<string, unknown>>
         return paginationContainer;
     }
 
+    // Creates the "Load more" button, or the infinite scroll sentinel, shown below the records
+    #createLoadMoreElement(): HTMLElement {
+        const paginationContainer = document.createElement('nav');
+        paginationContainer.classList.add(config.classes.paginationContainer);
+        paginationContainer.setAttribute(
+            'aria-label',
+            this.parent.state.translations!.pageNavigation
+        );
+        if (!this.parent.hasNextPage()) return paginationContainer;
+        // Browsers without IntersectionObserver fall back to the button
+        if (this.parent.paginationMode === 'infinite' && 'IntersectionObserver' in window) {
+            const sentinel = document.createElement('div');
+            sentinel.classList.add(config.classes.infiniteSentinel);
+            sentinel.setAttribute('aria-hidden', 'true');
+            paginationContainer.appendChild(sentinel);
+            return paginationContainer;
+        }
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.classList.add(config.classes.loadMoreButton);
+        button.textContent = this.parent.state.translations!.loadMore;
+        paginationContainer.appendChild(button);
+        return paginationContainer;
+    }
+
+    // Creates the previous/next-only pagination used in cursor pagination mode
+    #createCursorPaginationElement(): HTMLElement {
+        const parentState = this.parent.state;
+        const paginationContainer = document.createElement('nav');
+        paginationContainer.classList.add(config.classes.paginationContainer);
+        paginationContainer.setAttribute('aria-label', parentState.translations!.pageNavigation);
+        paginationContainer.appendChild(
+            this.#createPaginationButton(
+                this.parent.prevButtonConfig.text || parentState.translations!.previous,
+                parentState.currentPage === 1,
+                'prev'
+            )
+        );
+        // Page numbers cannot be jumped to, so only the current page is shown
+        const currentPage = document.createElement('span');
+        currentPage.setAttribute('aria-current', 'page');
+        currentPage.textContent = parentState.translations!.currentPage.replace(
+            '{page}',
+            parentState.currentPage.toString()
+        );
+        paginationContainer.appendChild(currentPage);
+        paginationContainer.appendChild(
+            this.#createPaginationButton(
+                this.parent.nextButtonConfig.text || parentState.translations!.next,
+                !this.parent.hasNextPage(),
+                'next'
+            )
+        );
+        return paginationContainer;
+    }
+
     // Creates the totals element showing record range
     #createTotalsElement(): HTMLElement {
         const parentState = this.parent.state;
         const totalsDiv = document.createElement('div');
         totalsDiv.classList.add(config.classes.totals);
-        if (parentState.totalRecords === 0) {
+        const isEmpty = parentState.totalRecordsKnown
+            ? parentState.totalRecords === 0
+            : parentState.data.length === 0;
+        if (isEmpty) {
             totalsDiv.textContent = parentState.translations!.noDataAvailable;
             return totalsDiv;
         }
-        // Calculate record range
-        const startRecord = (parentState.currentPage - 1) * parentState.rowsPerPage + 1;
+        // Calculate record range (appending modes show every loaded page)
+        const startRecord =
+            this.parent.paginationMode === 'pages'
+                ? (parentState.currentPage - 1) * parentState.rowsPerPage + 1
+                : 1;
         const endRecord = Math.min(
             parentState.currentPage * parentState.rowsPerPage,
             parentState.totalRecords
         );
+        if (!parentState.totalRecordsKnown) {
+            totalsDiv.innerHTML = parentState
+                .translations!.pagination.showingRecordsUnknownTotal.replace(
+                    '{start}',
+                    `<span class="${config.classes.recordStart}">${startRecord}</span>`
+                )
+                .replace('{end}', `<span class="${config.classes.recordEnd}">${endRecord}</span>`);
+            return totalsDiv;
+        }
         // Format the totals text
         const translationKey = parentState
             .translations!.pagination.showingRecords.replace(
@@ -78,7 +78,8 @@ export interface PersistedState {
     filters: Record<string, string>;
     currentPage: number;
     rowsPerPage: RowsPerPage;
-    headerCellClasses: string[];
+    hiddenColumns?: string[];
+    pinnedColumns?: Record<string, ColumnPin>;
 }
 
 // Interface defining the structure of translation objects
@@ -118,6 +119,8 @@ export interface Translation {
     pagination: {
         // Template for showing record range (e.g., "Showing 1-10 of 50")
         showingRecords: string;
+        // Template for showing record range when the total is unknown (e.g., "Showing 1-10")
+        showingRecordsUnknownTotal: string;
     };
     // Label for the current page
     currentPage: string;
@@ -141,6 +144,18 @@ export interface Translation {
     dragColumn: string;
     // Label for loading more data
     loadMore: string;
+    // Banner shown while offline data is displayed (e.g., "Offline – data from {time}")
+    offlineData: string;
+    // Label of the column chooser button
+    columns: string;
+    // Label of the column header menu button
+    columnMenu: string;
+    // Column menu action pinning the column to the left
+    pinLeft: string;
+    // Column menu action pinning the column to the right
+    pinRight: string;
+    // Column menu action unpinning the column
+    unpin: string;
 }
 
 // Interface for the event manager, handling user interactions
@@ -165,13 +180,45 @@ export class SnapRecordsConfigError extends Error {
 
 // Custom error class for data-related issues
 export class SnapRecordsDataError extends Error {
-    constructor(message: string) {
+    constructor(
+        message: string,
+        // Original error the data error was raised for, if any
+        public readonly cause?: unknown
+    ) {
         super(message);
         // Set the error name for identification
         this.name = 'SnapRecordsDataError';
     }
 }
 
+// Custom error class for non-OK HTTP responses
+export class SnapRecordsHttpError extends SnapRecordsDataError {
+    constructor(
+        message: string,
+        // HTTP status code of the response
+        public readonly status: number,
+        // Delay requested by the Retry-After header, in milliseconds
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        // Set the error name for identification
+        this.name = 'SnapRecordsHttpError';
+    }
+}
+
+// Custom error class for requests that could not reach the server (fetch itself rejected)
+export class SnapRecordsNetworkError extends Error {
+    constructor(
+        message: string,
+        // Original error fetch rejected with
+        public readonly cause?: unknown
+    ) {
+        super(message);
+        // Set the error name for identification
+        this.name = 'SnapRecordsNetworkError';
+    }
+}
+
 // Interface defining the configuration for pagination buttons
 export interface ButtonConfig {
     // CSS class names for styling
@@ -190,6 +237,67 @@ export interface ButtonConfig {
 // Type defining a sort condition as a tuple of column name and direction
 export type SortCondition = [string, OrderDirection];
 
+// Horizontal alignment of the header and cells of a column
+export type ColumnAlign = 'left' | 'center' | 'right';
+
+// Side of the table a column is pinned to while the rest scrolls horizontally
+export type ColumnPin = 'left' | 'right';
+
+// Sticky position of a pinned column
+export type PinnedOffset = {
+    // Side the column sticks to
+    side: ColumnPin;
+    // Distance in pixels from that side of the table
+    offset: number;
+    // Flag set on the innermost pinned column of its side, bordering the scrolling columns
+    edge: boolean;
+};
+
+// Interface defining a column and its settings
+export interface ColumnDef<T extends Identifiable & Record<string, unknown>> {
+    // Identifier of the column, also the path of its field unless field or valueGetter is set
+    key: string;
+    // Dot/bracket path of the field shown (e.g., "author.name" or "tags[0]"), sent to the server
+    // for sorting and filtering (defaults to the key)
+    field?: string;
+    // Computes the value of the column from its record, for columns without a field of their own
+    valueGetter?: (row: T) => unknown;
+    // Header title (defaults to the key)
+    title?: string;
+    // CSS classes for the header cell
+    headerClass?: string;
+    // CSS classes for the cells of the column
+    cellClass?: string;
+    // Initial width in pixels
+    width?: number;
+    // Minimum width in pixels when resizing
+    minWidth?: number;
+    // Maximum width in pixels when resizing
+    maxWidth?: number;
+    // Alignment of the header and cells
+    align?: ColumnAlign;
+    // Flag to allow sorting by the column (defaults to true)
+    sortable?: boolean;
+    // Flag to allow filtering by the column (defaults to true)
+    filterable?: boolean;
+    // Flag to show the column (defaults to true)
+    visible?: boolean;
+    // Keeps the column in view on the given side while the table scrolls horizontally
+    pinned?: ColumnPin;
+    // Formatter for custom cell rendering
+    formatter?: (value: unknown, row: T) => string;
+}
+
+// Interface defining a group of columns sharing a header cell above their own headers
+export interface ColumnGroup {
+    // Header title of the group
+    title: string;
+    // CSS classes for the group header cell
+    headerClass?: string;
+    // Column keys and nested groups under the group, in display order
+    children: Array<string | ColumnGroup>;
+}
+
 // Interface for server request parameters
 export interface ServerRequestParams {
     // Current page number
@@ -202,8 +310,169 @@ export interface ServerRequestParams {
     filtering?: Record<string, string>;
     // Optional sorting conditions
     sorting?: Record<string, 'ASC' | 'DESC'>;
+    // Cursor identifying the requested page in cursor pagination mode
+    cursor?: string;
+}
+
+// Interface configuring the HTTP requests made by the default data source
+export interface RequestOptions {
+    // HTTP method used for data requests (defaults to GET)
+    method?: string;
+    // Static headers sent with every data request
+    headers?: Record<string, string>;
+    // Provider for a bearer token, called before every data request
+    getAuthToken?: () => string | null | undefined | Promise<string | null | undefined>;
+    // Credentials mode passed to fetch
+    credentials?: RequestCredentials;
+    // Serializes request parameters into the body of non-GET requests (defaults to JSON)
+    serializeBody?: (params: ServerRequestParams) => BodyInit;
+}
+
+// Interface for the normalized result returned by a data source
+export interface DataSourceResult<T extends Identifiable & Record<string, unknown>> {
+    // Records for the requested page
+    data: T[];
+    // Total number of records matching the request (may be omitted in cursor pagination mode)
+    totalRecords?: number;
+    // Cursor of the page after this one, or null when this is the last page
+    nextCursor?: string | null;
+    // Cursor of the page before this one, or null when this is the first page
+    prevCursor?: string | null;
+    // ETag of the response, stored with the cached page
+    etag?: string;
+    // Last-Modified date of the response, stored with the cached page
+    lastModified?: string;
+    // Flag indicating the cached page is still current (304 Not Modified); data is ignored
+    notModified?: boolean;
+}
+
+// Interface for the validators of a cached page, sent with conditional requests
+export interface CacheValidators {
+    // ETag of the cached page (sent as If-None-Match)
+    etag?: string;
+    // Last-Modified date of the cached page (sent as If-Modified-Since)
+    lastModified?: string;
 }
 
+// Interface for the per-request context passed to a data source
+export interface DataSourceContext {
+    // Signal aborted when the request is superseded or the instance is destroyed
+    signal?: AbortSignal;
+    // Validators of the cached copy of the page, if any, for conditional requests
+    validators?: CacheValidators;
+}
+
+// Type for functions mapping an arbitrary API payload into a data source result
+export type ResponseAdapter<T extends Identifiable & Record<string, unknown>> = (
+    json: unknown,
+    response: Response
+) => DataSourceResult<T> | Promise<DataSourceResult<T>>;
+
+// Interface for pluggable data sources that load records for a request
+export interface DataSource<T extends Identifiable & Record<string, unknown>> {
+    // Loads the records matching the given request parameters
+    load(params: ServerRequestParams, context?: DataSourceContext): Promise<DataSourceResult<T>>;
+}
+
+// Type listing the built-in query-string dialects supported by UrlManager
+export type QueryDialect = 'default' | 'jsonapi' | 'odata' | 'spring' | 'laravel' | 'datatables';
+
+// Interface configuring how failed data loads are retried
+export interface RetryPolicy {
+    // Maximum number of retries (defaults to the retryAttempts option)
+    attempts?: number;
+    // HTTP statuses worth retrying
+    statuses?: number[];
+    // Delay before the first retry, doubled on each further attempt (in milliseconds)
+    baseDelayMs?: number;
+    // Upper bound for the backoff delay (in milliseconds)
+    maxDelayMs?: number;
+    // Flag to randomize delays so that clients do not retry in lockstep
+    jitter?: boolean;
+}
+
+// Interface describing a scheduled retry, passed to the onRetry hook
+export interface RetryInfo {
+    // Number of the upcoming retry (1 for the first retry)
+    attempt: number;
+    // Maximum number of retries
+    maxAttempts: number;
+    // Delay before the retry starts (in milliseconds)
+    delayMs: number;
+    // Error that caused the retry
+    error: unknown;
+}
+
+// Type for a live update message applied to the records by id
+export type LiveUpdateMessage<T extends Identifiable & Record<string, unknown>> =
+    | { type: 'upsert'; record: T }
+    | { type: 'delete'; id: Identifiable['id'] };
+
+// Type listing how records that are not on the current page are handled when inserted live
+export type LiveInsertPolicy = 'refresh' | 'prepend' | 'ignore';
+
+// Interface configuring live row updates over Server-Sent Events or WebSocket
+export interface LiveUpdatesOptions<T extends Identifiable & Record<string, unknown>> {
+    // Endpoint streaming the updates (ws:// and wss:// URLs default to WebSocket)
+    url: string;
+    // Transport used to receive updates
+    transport?: 'sse' | 'websocket';
+    // Flag to send cookies with the SSE connection
+    withCredentials?: boolean;
+    // Maps a raw message to one or more updates (defaults to JSON.parse)
+    parseMessage?: (
+        data: string
+    ) => LiveUpdateMessage<T> | ReadonlyArray<LiveUpdateMessage<T>> | null;
+    // How upserts of records missing from the current page are handled
+    onInsert?: LiveInsertPolicy;
+    // Delay before reconnecting a closed WebSocket (in milliseconds)
+    reconnectDelayMs?: number;
+}
+
+// Interface configuring periodic background reloads of the current page
+export interface AutoRefreshOptions {
+    // Delay between polls (in milliseconds)
+    intervalMs: number;
+    // Flag to skip polls while the tab is hidden and refresh as soon as it is visible again
+    pauseWhenHidden?: boolean;
+    // Flag to skip polls while the user is scrolling, typing or clicking in the component
+    pauseWhileInteracting?: boolean;
+}
+
+// Interface configuring how neighbouring pages are fetched ahead of navigation
+export interface PrefetchOptions {
+    // Number of pages after the current one to prefetch
+    ahead?: number;
+    // Number of pages before the current one to prefetch
+    behind?: number;
+    // Flag to prefetch a page while the pointer is over its pagination button
+    onHoverPage?: boolean;
+}
+
+// Interface configuring row virtualization for large pages
+export interface VirtualizationOptions {
+    // Estimated height in pixels of a table row, list item or row of cards
+    itemHeight?: number;
+    // Number of extra rows rendered above and below the visible window
+    overscan?: number;
+    // Height in pixels of the scrollable viewport
+    height?: number;
+}
+
+// Type listing how further pages are reached: numbered pages, a "Load more" button or infinite scroll
+export type PaginationMode = 'pages' | 'loadMore' | 'infinite';
+
+// Type listing how cached pages are used: served until expiry, used only when the network fails,
+// or served immediately and refreshed in the background
+export type CacheStrategy = 'cache-first' | 'network-first' | 'stale-while-revalidate';
+
+// Type for functions serializing request parameters into a query string, given the resolved
+// field paths of the columns (computed columns the data source cannot evaluate are left out)
+export type QuerySerializer = (
+    params: ServerRequestParams,
+    columns: ReadonlyArray<string>
+) => URLSearchParams | string;
+
 // Type defining callbacks for the event manager
 export type EventManagerCallbacks = {
     // Callback for reordering columns
@@ -227,8 +496,35 @@ export interface CacheData<T extends Identifiable & Record<string, unknown>> {
     totalRecords: number;
     // Timestamp of when the data was cached
     timestamp: number;
+    // Cursor of the next page in cursor pagination mode
+    nextCursor?: string | null;
+    // Cursor of the previous page in cursor pagination mode
+    prevCursor?: string | null;
+    // Flag indicating if totalRecords is exact (false when the server omitted it)
+    totalRecordsKnown?: boolean;
+    // ETag of the cached response
+    etag?: string;
+    // Last-Modified date of the cached response
+    lastModified?: string;
+    // Tags derived from the request parameters by the cacheTags option
+    tags?: string[];
+    // Estimated size of the entry in bytes, used by the cacheMaxBytes limit
+    size?: number;
 }
 
+// Type selecting cached pages to invalidate: every condition given must match (tags match if any
+// of them is present), or a predicate called with each cached entry
+export type CacheInvalidationFilter<T extends Identifiable & Record<string, unknown>> =
+    | {
+          // Prefix of the cached request URLs
+          urlPrefix?: string;
+          // Id of a record the cached pages contain
+          rowId?: Identifiable['id'];
+          // Tags of the cached pages (see the cacheTags option)
+          tags?: ReadonlyArray<string>;
+      }
+    | ((entry: CacheData<T>) => boolean);
+
 // Interface for lifecycle hooks to customize behavior
 export interface LifecycleHooks<T extends Identifiable & Record<string, unknown>> {
     // Called before data is loaded
@@ -241,10 +537,11 @@ export interface LifecycleHooks<T extends Identifiable & Record<string, unknown>
     postRender?: () => void;
     // Called when row selection changes
     selectionChanged?: (selectedRows: T[]) => void;
+    // Called when a failed data load is scheduled to be retried
+    onRetry?: (info: RetryInfo) => void;
 }
 
 // Interface for the renderer, handling UI rendering
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 export interface ISnapRenderer<T extends Identifiable & Record<string, unknown>> {
     // Table body element
     readonly tableBody: HTMLTableSectionElement | null;
@@ -268,6 +565,17 @@ export interface ISnapRenderer<T extends Identifiable & Record<string, unknown>>
     hideLoading(): void;
     // Displays an error message
     showError(message: string): void;
+    // Shows or hides the offline banner, depending on offlineDataTimestamp
+    updateOfflineNotice(): void;
+    // Renders the column chooser toolbar, when enabled
+    updateColumnChooser(): void;
+    // Opens or closes the column chooser popover (toggles without an argument)
+    toggleColumnChooser(open?: boolean): void;
+    // Opens the header menu of a column, or closes the open one (toggles for the same column)
+    toggleColumnMenu(key?: string): void;
+    // Returns the side and sticky offset of a pinned visible column, and whether it is the
+    // innermost one of its side
+    getPinnedOffset(key: string): PinnedOffset | undefined;
     // Announces updates for screen readers
     announceScreenReaderUpdate(message: string): void;
     // Highlights selected rows
@@ -280,6 +588,10 @@ export interface ISnapRenderer<T extends Identifiable & Record<string, unknown>>
     navigateToPrevRow(): void;
     // Applies column widths
     applyColumnWidths(): void;
+    // Re-renders the element of a single record, if it is rendered
+    updateItem(row: T, index: number): void;
+    // Removes the element of a single record, if it is rendered
+    removeItem(key: string): void;
 }
 
 // Interface defining the state of a SnapRecords instance
@@ -292,16 +604,20 @@ export interface SnapRecordsState<T extends Identifiable & Record<string, unknow
     readonly filters: Readonly<Record<string, string>>;
     // Applied sort conditions
     readonly sortConditions: ReadonlyArray<SortCondition>;
-    // List of column names
+    // Column keys in display order
     readonly columns: ReadonlyArray<string>;
-    // List of column titles
-    readonly columnTitles: ReadonlyArray<string>;
+    // Column definitions by key
+    readonly columnDefs: Readonly<Record<string, ColumnDef<T>>>;
     // Map of column widths
     readonly columnWidths: ReadonlyMap<string, number>;
     // Current data array
     readonly data: ReadonlyArray<T>;
     // Total number of records
     readonly totalRecords: number;
+    // Flag indicating if totalRecords is exact (false in cursor mode without a total)
+    readonly totalRecordsKnown: boolean;
+    // Cursors per visited page in cursor pagination mode (index 0 is page 1)
+    readonly cursors: ReadonlyArray<string | null>;
     // Current rendering mode
     readonly format: RenderType;
     // Current language code
@@ -310,17 +626,47 @@ export interface SnapRecordsState<T extends Identifiable & Record<string, unknow
     readonly translations: Translation | null;
     // Current theme (light, dark, or default)
     readonly theme: 'light' | 'dark' | 'default';
-    // CSS classes for header cells
-    readonly headerCellClasses: ReadonlyArray<string>;
 }
 
 // Interface for SnapRecords configuration options
 export interface SnapRecordsOptions<T extends Identifiable & Record<string, unknown>> {
-    // API URL for data fetching
-    url: string;
-    // List of column names
-    columns: string[];
-    // Optional list of column titles
+    // API URL for data fetching (optional when a custom data source or local data is provided)
+    url?: string;
+    // Optional custom data source used instead of fetching from the URL
+    dataSource?: DataSource<T>;
+    // Optional in-memory records, enabling client-side paging, sorting and filtering
+    data?: T[];
+    // Optional HTTP request configuration for data loads and preloads
+    request?: RequestOptions;
+    // Optional mapper from the API payload to the internal { data, totalRecords } shape
+    responseAdapter?: ResponseAdapter<T>;
+    // Query-string convention used to build request URLs
+    queryDialect?: QueryDialect;
+    // Flag to enable cursor (keyset) pagination with nextCursor/prevCursor
+    cursorPagination?: boolean;
+    // How further pages are loaded: numbered pages, a "Load more" button or infinite scroll
+    paginationMode?: PaginationMode;
+    // Retry policy for failed data loads (statuses, backoff and jitter)
+    retryPolicy?: RetryPolicy;
+    // Live row updates received over Server-Sent Events or WebSocket
+    liveUpdates?: LiveUpdatesOptions<T>;
+    // Periodically reloads the current page in the background
+    autoRefresh?: AutoRefreshOptions;
+    // Renders only the visible rows plus overscan (true uses the default settings)
+    virtualization?: boolean | VirtualizationOptions;
+    // Optional custom query-string serializer, overriding queryDialect
+    querySerializer?: QuerySerializer;
+    // Column definitions, each carrying its own settings
+    columnDefs?: ColumnDef<T>[];
+    // Flag to show a "Columns" button letting users show and hide columns
+    columnChooser?: boolean;
+    // Flag to show a menu button in each column header, with pin and unpin actions
+    columnMenu?: boolean;
+    // Groups of columns rendered as extra header rows above the column headers
+    columnGroups?: ColumnGroup[];
+    // List of column names (shorthand for columnDefs)
+    columns?: string[];
+    // Optional list of column titles (shorthand for columnDefs)
     columnTitles?: string[];
     // Rendering mode
     format?: RenderType;
@@ -328,13 +674,25 @@ export interface SnapRecordsOptions<T extends Identifiable & Record<string, unkn
     rowsPerPage?: RowsPerPage;
     // Flag to enable caching
     useCache?: boolean;
+    // How cached pages are used when useCache is enabled
+    cacheStrategy?: CacheStrategy;
+    // Derives tags from the request parameters, stored with each cached page for invalidation
+    cacheTags?: (params: ServerRequestParams) => string[];
+    // Version of the cached data; entries cached under another version are wiped
+    cacheVersion?: string | number;
+    // Scope of the cache (e.g., a user or tenant id), giving each scope its own database
+    cacheScope?: string;
+    // Maximum number of cached pages, evicting the oldest beyond it
+    cacheMaxEntries?: number;
+    // Maximum estimated size of the cached pages in bytes, evicting the oldest beyond it
+    cacheMaxBytes?: number;
     // Flag to enable URL state persistence
     usePushState?: boolean;
     // Language code for translations
     language?: string;
     // Path to the language files directory
     langPath?: string;
-    // CSS classes for header cells
+    // CSS classes for header cells (shorthand for columnDefs)
     headerCellClasses?: string[];
     // Cache expiration time
     cacheExpiry?: number;
@@ -366,8 +724,10 @@ export interface SnapRecordsOptions<T extends Identifiable & Record<string, unkn
     };
     // Number of retry attempts for failed fetches
     retryAttempts?: number;
-    // Flag to enable preloading of the next page
+    // Flag to enable preloading of the next page (shorthand for prefetch: { ahead: 1 })
     preloadNextPage?: boolean;
+    // Prefetches neighbouring pages into memory and the cache (true prefetches the next page)
+    prefetch?: boolean | PrefetchOptions;
     // Flag to enable state persistence
     persistState?: boolean;
     // Flag to destroy the instance on window unload
@@ -388,7 +748,7 @@ export interface SnapRecordsOptions<T extends Identifiable & Record<string, unkn
     stateManager?: (parent: SnapRecords<T>) => StateManager<T>;
     // Optional custom URL manager
     urlManager?: (parent: SnapRecords<T>) => UrlManager<T>;
-    // Optional formatters for custom cell rendering
+    // Optional formatters for custom cell rendering (shorthand for columnDefs)
     columnFormatters?: { [columnKey: string]: (value: unknown, row: T) => string };
     // Optional custom renderer
     renderer?: (parent: SnapRecords<T>, container: HTMLElement) => ISnapRenderer<T>;
@@ -412,6 +772,12 @@ export interface ISnapApi<T extends Identifiable & Record<string, unknown>> {
     getData(): ReadonlyArray<T>;
     // Navigates to a specific page
     gotoPage(page: number): void;
+    // Appends the next page in the loadMore and infinite pagination modes
+    loadMore(): void;
+    // Inserts or updates a record by id, re-rendering only its element
+    upsertRecord(record: T, onInsert?: LiveInsertPolicy): void;
+    // Removes a record by id, removing only its element
+    removeRecord(id: Identifiable['id']): void;
     // Returns the total number of records
     getTotals(): { totalRecords: number };
     // Sets the rendering mode
@@ -424,6 +790,14 @@ export interface ISnapApi<T extends Identifiable & Record<string, unknown>> {
     setRowsPerPage(newRowsPerPage: RowsPerPage): void;
     // Performs a search with filters
     search(filters: Record<string, string>, merge?: boolean): void;
+    // Replaces the in-memory records used in client-side mode
+    setData(rows: ReadonlyArray<T>): void;
+    // Deletes the matching cached pages (all of them without a filter), resolving to their number
+    invalidateCache(filter?: CacheInvalidationFilter<T>): Promise<number>;
+    // Shows or hides a column
+    setColumnVisibility(key: string, visible: boolean): void;
+    // Pins a column to the left or right side, or unpins it with null
+    setColumnPinned(key: string, pinned: ColumnPin | null): void;
     // Updates state parameters
     updateParams(
         params: Partial<
@@ -1,5 +1,6 @@
 import {
     LogLevel,
+    ColumnPin,
     RowsPerPage,
     StateUpdater,
     Identifiable,
@@ -23,7 +24,7 @@ import { SnapRecords } from './SnapRecords.js';
     It provides methods to update the state immutably, save and load state from localStorage,
     and synchronize state with the browser URL.
     This ensures that user preferences such as column order, filters, sorting, and pagination
-    are preserved across sessions and can be shared via URLs.
+    are preserved across sessions and can be shared via URLs. Hidden columns are kept in both.
 
 ==========================================================================================================*/
 
@@ -71,8 +72,12 @@ export class StateManager<T extends Identifiable & Record<string, unknown>> {
         this.#parent.state.sortConditions.forEach(([column, direction]) => {
             params.append(`sorting[${column}]`, direction);
         });
-        // Update the URL without reloading
+        // Add hidden columns
+        const hiddenColumns = this.#getHiddenColumns();
+        if (hiddenColumns.length > 0) params.set('hiddenColumns', hiddenColumns.join(','));
+        // Update the URL without reloading, skipping data-only changes that leave it untouched
         const newUrl = `${window.location.pathname}?${params.toString()}`;
+        if (newUrl === `${window.location.pathname}${window.location.search}`) return;
         window.history.pushState({ path: newUrl }, '', newUrl);
     }
 
@@ -142,6 +147,12 @@ export class StateManager<T extends Identifiable & Record<string, unknown>> {
                 }
             });
             draft.sortConditions = newSorts;
+
+            // Load hidden columns
+            const hiddenParam = params.get('hiddenColumns');
+            if (hiddenParam !== null) {
+                this.#applyHiddenColumns(draft, hiddenParam.split(',').filter(Boolean));
+            }
         });
     }
 
@@ -158,15 +169,8 @@ export class StateManager<T extends Identifiable & Record<string, unknown>> {
         log(this.#parent.debug, LogLevel.INFO, 'Saving state to localStorage...');
 
         // Extract relevant state properties
-        const {
-            columns,
-            columnWidths,
-            sortConditions,
-            filters,
-            currentPage,
-            rowsPerPage,
-            headerCellClasses,
-        } = this.#parent.state;
+        const { columns, columnWidths, sortConditions, filters, currentPage, rowsPerPage } =
+            this.#parent.state;
         // Create state object for storage
         const stateToSave: PersistedState = {
             columns: [...columns],
@@ -175,7 +179,8 @@ export class StateManager<T extends Identifiable & Record<string, unknown>> {
             filters: { ...filters },
             currentPage,
             rowsPerPage,
-            headerCellClasses: [...headerCellClasses],
+            hiddenColumns: this.#getHiddenColumns(),
+            pinnedColumns: this.#getPinnedColumns(),
         };
 
         this.#saveDebounceTimer = setTimeout(() => {
@@ -218,6 +223,19 @@ export class StateManager<T extends Identifiable & Record<string, unknown>> {
                     this.#applyStoredColumnOrder(draft, savedState.columns);
                 }
 
+                // Validate and apply hidden columns
+                if (Array.isArray(savedState.hiddenColumns)) {
+                    this.#applyHiddenColumns(
+                        draft,
+                        savedState.hiddenColumns.filter((key) => typeof key === 'string')
+                    );
+                }
+
+                // Validate and apply pinned columns
+                if (savedState.pinnedColumns && typeof savedState.pinnedColumns === 'object') {
+                    this.#applyPinnedColumns(draft, savedState.pinnedColumns);
+                }
+
                 // Validate and apply column widths
                 if (savedState.columnWidths && Array.isArray(savedState.columnWidths)) {
                     const validWidths = savedState.columnWidths.filter(
@@ -286,39 +304,59 @@ export class StateManager<T extends Identifiable & Record<string, unknown>> {
         }
     }
 
+    // Returns the keys of the hidden columns
+    #getHiddenColumns(): string[] {
+        const { columns, columnDefs } = this.#parent.state;
+        return columns.filter((key) => columnDefs[key]?.visible === false);
+    }
+
+    // Hides exactly the given columns, ignoring lists that would hide every column
+    #applyHiddenColumns(state: Draft<SnapRecordsState<T>>, hiddenColumns: string[]): void {
+        if (state.columns.every((key) => hiddenColumns.includes(key))) return;
+        state.columns.forEach((key) => {
+            state.columnDefs[key].visible = !hiddenColumns.includes(key);
+        });
+    }
+
+    // Returns the pinned side of each pinned column
+    #getPinnedColumns(): Record<string, ColumnPin> {
+        const { columns, columnDefs } = this.#parent.state;
+        const pinned: Record<string, ColumnPin> = {};
+        columns.forEach((key) => {
+            const side = columnDefs[key]?.pinned;
+            if (side) pinned[key] = side;
+        });
+        return pinned;
+    }
+
+    // Pins exactly the given columns, ignoring unknown sides
+    #applyPinnedColumns(
+        state: Draft<SnapRecordsState<T>>,
+        pinnedColumns: Record<string, unknown>
+    ): void {
+        state.columns.forEach((key) => {
+            const side = pinnedColumns[key];
+            if (side === 'left' || side === 'right') {
+                state.columnDefs[key].pinned = side;
+            } else {
+                delete state.columnDefs[key].pinned;
+            }
+        });
+    }
+
     // Applies stored column order to maintain consistency
     #applyStoredColumnOrder(state: Draft<SnapRecordsState<T>>, savedColumns: string[]): void {
-        const originalColumnsConfig = [...state.columns];
-        const originalTitlesConfig = [...state.columnTitles];
-        const originalClassesConfig = [...state.headerCellClasses];
-
+        const configuredColumns = [...state.columns];
         // Filter valid saved columns
-        const validSavedColumns = savedColumns.filter((col) => originalColumnsConfig.includes(col));
+        const validSavedColumns = savedColumns.filter((col) => configuredColumns.includes(col));
         // Include any new columns not in saved state
-        const newConfiguredColumns = originalColumnsConfig.filter(
+        const newConfiguredColumns = configuredColumns.filter(
             (col) => !validSavedColumns.includes(col)
         );
-
-        // Combine saved and new columns
+        // Column settings live in the definitions, so only the order of the keys changes
         const newColumnsOrder = [...validSavedColumns, ...newConfiguredColumns];
-        const newTitles: string[] = [];
-        const newClasses: string[] = [];
-
-        // Reorder titles and classes to match column order
-        newColumnsOrder.forEach((colName: string) => {
-            const originalIndex = originalColumnsConfig.indexOf(colName);
-            if (originalIndex !== -1) {
-                newTitles.push(originalTitlesConfig[originalIndex]);
-                if (originalClassesConfig.length > originalIndex) {
-                    newClasses.push(originalClassesConfig[originalIndex]);
-                }
-            }
-        });
-
         log(this.#parent.debug, LogLevel.LOG, 'Applying stored column order:', newColumnsOrder);
         state.columns = newColumnsOrder;
-        state.columnTitles = newTitles;
-        state.headerCellClasses = newClasses;
     }
 }
 
@@ -1,5 +1,6 @@
 import { sanitizeHTML } from './utils.js';
 import { SnapRecords } from './SnapRecords.js';
+import { queryDialects } from './QueryDialects.js';
 import { Identifiable, ServerRequestParams } from './SnapTypes.js';
 
 /*========================================================================================================
@@ -11,7 +12,9 @@ import { Identifiable, ServerRequestParams } from './SnapTypes.js';
     Manages the construction of API URLs and server request parameters for data fetching
     in the context of a SnapRecords instance. This class centralizes logic for building
     query strings with pagination, filtering, and sorting, ensuring consistent and correct
-    API requests based on the current state of the parent SnapRecords.
+    API requests based on the current state of the parent SnapRecords. The query-string
+    convention is selected with the `queryDialect` option (see QueryDialects.ts) or replaced
+    entirely by a custom `querySerializer`.
 
     @typeParam T - The type of records managed, extending Identifiable and a generic object.
 
@@ -28,30 +31,21 @@ export class UrlManager<T extends Identifiable & Record<string, unknown>> {
 
     // Builds a URL with query parameters for an API request
     public buildUrl(params: ServerRequestParams): string {
-        // Create URLSearchParams to hold query parameters
-        const urlParams = new URLSearchParams();
-        // Add pagination parameters
-        urlParams.append('page', params.page.toString());
-        urlParams.append('perPage', params.perPage.toString());
-        urlParams.append('offset', params.offset.toString());
+        // Serialize the parameters using the configured dialect or custom serializer
+        const serializer = this.#parent.querySerializer ?? queryDialects[this.#parent.queryDialect];
+        const query = serializer(params, this.#getColumnPaths()).toString();
+        if (!query) return this.#parent.baseUrl;
+        // Append to any query string already present in the base URL
+        const separator = this.#parent.baseUrl.includes('?') ? '&' : '?';
+        return `${this.#parent.baseUrl}${separator}${query}`;
+    }
 
-        // Add filtering parameters if present (sanitize values)
-        if (params.filtering) {
-            Object.entries(params.filtering).forEach(([key, value]) => {
-                // Sanitize the value to prevent XSS
-                const sanitizedValue = sanitizeHTML(String(value));
-                urlParams.append(`filtering[${key}]`, sanitizedValue);
-            });
-        }
-        // Add sorting parameters if present
-        if (params.sorting) {
-            Object.entries(params.sorting).forEach(([key, value]) => {
-                // Sorting values are controlled (ASC/DESC) so no need to sanitize
-                urlParams.append(`sorting[${key}]`, value);
-            });
-        }
-        // Construct and return the full URL
-        return `${this.#parent.baseUrl}?${urlParams.toString()}`;
+    // Returns the resolved field paths of the columns the data source can sort and filter on,
+    // matching the keys of the filtering and sorting parameters
+    #getColumnPaths(): string[] {
+        return this.#parent.state.columns
+            .map((key) => this.#parent.getColumnPath(key))
+            .filter((path): path is string => path !== null);
     }
 
     // Generates server request parameters based on the current state
@@ -66,17 +60,25 @@ export class UrlManager<T extends Identifiable & Record<string, unknown>> {
         if (Object.keys(this.#parent.state.filters).length > 0) {
             // Sanitize filter values
             const sanitizedFilters: Record<string, string> = {};
+            // Columns are sent as the resolved paths of their fields
             Object.entries(this.#parent.state.filters).forEach(([key, value]) => {
-                sanitizedFilters[key] = sanitizeHTML(String(value));
+                const path = this.#parent.getColumnPath(key);
+                if (path !== null) sanitizedFilters[path] = sanitizeHTML(String(value));
             });
             params.filtering = sanitizedFilters;
         }
         // Include sorting conditions if any exist
         if (this.#parent.state.sortConditions.length > 0) {
-            params.sorting = Object.fromEntries(this.#parent.state.sortConditions) as Record<
-                string,
-                'ASC' | 'DESC'
-            >;
+            params.sorting = Object.fromEntries(
+                this.#parent.state.sortConditions
+                    .map(([key, direction]) => [this.#parent.getColumnPath(key), direction])
+                    .filter(([path]) => path !== null)
+            ) as Record<string, 'ASC' | 'DESC'>;
+        }
+        // Include the cursor recorded for this page in cursor pagination mode
+        if (this.#parent.cursorPagination) {
+            const cursor = this.#parent.state.cursors[page - 1];
+            if (cursor) params.cursor = cursor;
         }
         return params;
     }
@@ -13,16 +13,50 @@
 
 // Exports key types for TypeScript users
 export type {
+    DataSource,
     Translation,
+    QueryDialect,
+    PaginationMode,
+    CacheStrategy,
+    VirtualizationOptions,
     Identifiable,
     LifecycleHooks,
+    RequestOptions,
+    ResponseAdapter,
+    QuerySerializer,
+    DataSourceResult,
+    CacheValidators,
+    CacheInvalidationFilter,
     SnapRecordsOptions,
     ServerRequestParams,
+    RetryPolicy,
+    RetryInfo,
+    LiveInsertPolicy,
+    LiveUpdateMessage,
+    LiveUpdatesOptions,
+    AutoRefreshOptions,
+    PrefetchOptions,
+    ColumnDef,
+    ColumnAlign,
+    ColumnPin,
+    ColumnGroup,
 } from './SnapTypes.js';
 
+// Exports the errors raised for non-OK HTTP responses (carrying the status) and unreachable servers
+export { SnapRecordsHttpError, SnapRecordsNetworkError } from './SnapTypes.js';
+
 // Exports the main SnapRecords class
 export { SnapRecords } from './SnapRecords.js';
 
+// Exports the default HTTP data source for wrapping or extension
+export { HttpDataSource } from './HttpDataSource.js';
+
+// Exports the in-memory data source used in client-side mode
+export { LocalDataSource } from './LocalDataSource.js';
+
+// Exports the shared in-flight request registry, for custom data sources
+export { dedupeRequest, getRequestKey } from './RequestRegistry.js';
+
 // Exports commonly used enums for configuration
 export { RenderType, OrderDirection, RowsPerPage } from './SnapTypes.js';
 
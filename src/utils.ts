@@ -9,6 +9,8 @@ import { LogLevel } from './SnapTypes';
     removes all <script> and <style> elements, and strips out any attributes
     that start with 'on' (such as onclick, onmouseover, etc.) from all elements.
     It returns the sanitized HTML as a string.
+    Also holds the debug-aware logger and the helpers reading record values at dot/bracket field
+    paths such as `author.name` or `tags[0]`.
 
 ==========================================================================================================*/
 
@@ -48,6 +50,32 @@ export function log(debug: boolean, level: LogLevel, ...args: unknown[]): void {
 }
 /* eslint-enable no-console */
 
+// Utility function splitting a dot/bracket field path (e.g., "author.name", "tags[0]") into segments
+export function parsePath(path: string): string[] {
+    return path
+        .replace(/\[(\w+)\]/g, '.$1')
+        .split('.')
+        .filter((segment) => segment !== '');
+}
+
+// Utility function normalizing a field path to dot notation (e.g., "tags[0].name" to "tags.0.name")
+export function resolvePath(path: string): string {
+    return parsePath(path).join('.');
+}
+
+// Utility function reading the value at a field path of a record, undefined when it is missing
+export function getValueAtPath(record: Record<string, unknown>, path: string): unknown {
+    // Flat fields whose names contain dots keep working
+    if (Object.prototype.hasOwnProperty.call(record, path)) return record[path];
+    return parsePath(path).reduce<unknown>(
+        (value, segment) =>
+            value !== null && value !== undefined
+                ? (value as Record<string, unknown>)[segment]
+                : undefined,
+        record
+    );
+}
+
 /*========================================================================================================
     UTILS FILE ENDS HERE
 ==========================================================================================================*/
@@ -1,11 +1,14 @@
 import "fake-indexeddb/auto";
 
 import {
+    ColumnDef,
     RenderType,
     SnapRecords,
+    OrderDirection,
     Translation,
     Identifiable,
-    SnapRecordsOptions
+    SnapRecordsOptions,
+    SnapRecordsNetworkError
 } from '../src/index';
 
 import en_US from './__mocks__/lang/en_US.json';
@@ -201,6 +204,1442 @@ describe('SnapRecords', () => {
         });
     });
 
+    describe('Data Sources', () => {
+        // Test case for a custom data source replacing the built-in fetch
+        it('should load data through a custom dataSource instead of fetch', async () => {
+            const load = jest.fn().mockResolvedValue({
+                data: [{ id: 7, name: 'From source' }],
+                totalRecords: 1,
+            });
+            const { url, ...options } = defaultOptions;
+            const instance = new SnapRecords(containerId, { ...options, dataSource: { load } });
+            // Run all timers to complete async operations
+            await jest.runAllTimersAsync();
+            // Verify the data source received server params and fetch was bypassed
+            expect(load).toHaveBeenCalledWith(
+                expect.objectContaining({ page: 1, perPage: 10 }),
+                expect.objectContaining({ signal: expect.any(AbortSignal) })
+            );
+            expect(global.fetch).not.toHaveBeenCalled();
+            expect(instance.getData()[0].name).toBe('From source');
+        });
+
+        // Test case for preloading through the data source
+        it('should preload the next page through the dataSource', async () => {
+            const load = jest.fn().mockResolvedValue({
+                data: [{ id: 1, name: 'Row' }],
+                totalRecords: 30,
+            });
+            new SnapRecords(containerId, {
+                ...defaultOptions,
+                preloadNextPage: true,
+                dataSource: { load },
+            });
+            await jest.runAllTimersAsync();
+            // Verify the next page was requested after the current one
+            expect(load).toHaveBeenCalledWith(expect.objectContaining({ page: 2 }));
+        });
+    });
+
+    describe('Prefetching', () => {
+        // Data source answering every page with a single record named after the page
+        const pagedLoad = () =>
+            jest.fn().mockImplementation(async (params: { page: number }) => ({
+                data: [{ id: params.page, name: `Page ${params.page}` }],
+                totalRecords: 30,
+            }));
+
+        // Test case for prefetching in both directions without IndexedDB
+        it('should serve navigation from prefetched pages in both directions', async () => {
+            const load = pagedLoad();
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                prefetch: { ahead: 1, behind: 1 },
+                dataSource: { load },
+            });
+            await jest.runAllTimersAsync();
+            instance.gotoPage(2);
+            await jest.runAllTimersAsync();
+            const pages = load.mock.calls.map(([params]) => params.page);
+            // Page 2 was loaded once, ahead of navigation, then pages 3 and 1 around it
+            expect(pages).toEqual([1, 2, 3, 1]);
+            expect(instance.getData()[0].name).toBe('Page 2');
+            instance.destroy();
+        });
+
+        // Test case for prefetching the page of a hovered pagination button
+        it('should prefetch the page of a hovered pagination button', async () => {
+            const load = pagedLoad();
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                prefetch: { ahead: 0, onHoverPage: true },
+                dataSource: { load },
+            });
+            await jest.runAllTimersAsync();
+            const button = Array.from(
+                document.querySelectorAll<HTMLButtonElement>('.snap-pagination-container button')
+            ).find((candidate) => candidate.textContent?.trim() === '3');
+            button!.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }));
+            await jest.runAllTimersAsync();
+            expect(load).toHaveBeenLastCalledWith(expect.objectContaining({ page: 3 }));
+            instance.destroy();
+        });
+
+        // Test case for the deprecated preloading aliases
+        it('should keep the deprecated preloading aliases working', async () => {
+            const load = pagedLoad();
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                preloadNextPage: true,
+                dataSource: { load },
+            });
+            await jest.runAllTimersAsync();
+            expect(instance.preloadNextPageEnabled).toBe(true);
+            expect(instance.prefetch).toEqual({ ahead: 1, behind: 0, onHoverPage: false });
+            // The next page was prefetched after the first load; dropping it lets the alias load it again
+            instance.cacheManager.clearPrefetched();
+            const calls = load.mock.calls.length;
+            await instance.cacheManager.preloadNextPage();
+            expect(load).toHaveBeenCalledTimes(calls + 1);
+            expect(load).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+            instance.preloadNextPageEnabled = false;
+            expect(instance.prefetch).toBeNull();
+            instance.destroy();
+        });
+    });
+
+    describe('HTTP Request Options', () => {
+        // Test case for headers, credentials and a fresh auth token on every request
+        it('should send configured headers, credentials and auth token', async () => {
+            const getAuthToken = jest.fn().mockResolvedValue('secret-token');
+            new SnapRecords(containerId, {
+                ...defaultOptions,
+                request: { headers: { 'X-Tenant': 'acme' }, credentials: 'include', getAuthToken },
+            });
+            await jest.runAllTimersAsync();
+            const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+            expect(url).toContain('page=1');
+            expect(init.method).toBe('GET');
+            expect(init.credentials).toBe('include');
+            expect(init.headers).toEqual({ 'X-Tenant': 'acme', Authorization: 'Bearer secret-token' });
+            expect(getAuthToken).toHaveBeenCalledTimes(1);
+        });
+
+        // Test case for POST requests with a JSON body
+        it('should POST request params as a JSON body', async () => {
+            new SnapRecords(containerId, { ...defaultOptions, request: { method: 'post' } });
+            await jest.runAllTimersAsync();
+            const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+            expect(url).toBe('http://localhost/api/data');
+            expect(init.method).toBe('POST');
+            expect(init.headers['Content-Type']).toBe('application/json');
+            expect(JSON.parse(init.body)).toEqual({ page: 1, perPage: 10, offset: 0 });
+        });
+
+        // Test case for instances sharing an identical request in flight
+        it('should share identical in-flight requests between instances', async () => {
+            let respond: (value: unknown) => void = () => {};
+            (global.fetch as jest.Mock).mockImplementation(
+                () => new Promise((resolve) => (respond = resolve))
+            );
+            document.body.innerHTML += '<div id="second-container"></div>';
+            const first = new SnapRecords(containerId, defaultOptions);
+            const second = new SnapRecords('second-container', defaultOptions);
+            await jest.advanceTimersByTimeAsync(1000);
+            respond({
+                ok: true,
+                json: () => Promise.resolve({ totalRecords: 1, data: [{ id: 1, name: 'Test User' }] }),
+            });
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            expect(first.getData()[0].name).toBe('Test User');
+            expect(second.getData()[0].name).toBe('Test User');
+        });
+
+        // Test case for keeping a shared request alive while a caller is left
+        it('should abort a shared request only when its last caller leaves', async () => {
+            let respond: (value: unknown) => void = () => {};
+            (global.fetch as jest.Mock).mockImplementation(
+                () => new Promise((resolve) => (respond = resolve))
+            );
+            document.body.innerHTML += '<div id="second-container"></div>';
+            const first = new SnapRecords(containerId, defaultOptions);
+            const second = new SnapRecords('second-container', defaultOptions);
+            await jest.advanceTimersByTimeAsync(1000);
+            const { signal } = (global.fetch as jest.Mock).mock.calls[0][1];
+            first.destroy();
+            expect(signal.aborted).toBe(false);
+            respond({
+                ok: true,
+                json: () => Promise.resolve({ totalRecords: 1, data: [{ id: 2, name: 'Shared' }] }),
+            });
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            expect(second.getData()[0].name).toBe('Shared');
+            second.destroy();
+            expect(signal.aborted).toBe(false);
+        });
+    });
+
+    describe('Response Adapter', () => {
+        // Test case for mapping a custom payload shape and reading headers
+        it('should map arbitrary payloads through responseAdapter', async () => {
+            (global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                headers: new Headers({ 'X-Total-Count': '42' }),
+                json: () => Promise.resolve({ results: [{ id: 5, name: 'Mapped' }] }),
+            });
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                responseAdapter: (json: any, response) => ({
+                    data: json.results,
+                    totalRecords: Number(response.headers.get('X-Total-Count')),
+                }),
+            });
+            await jest.runAllTimersAsync();
+            expect(instance.getData()[0].name).toBe('Mapped');
+            expect(instance.getTotals().totalRecords).toBe(42);
+        });
+
+        // Test case for malformed payloads
+        it('should show a data error for a malformed payload', async () => {
+            (global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: () => Promise.resolve({ items: [], count: 0 }),
+            });
+            const instance = new SnapRecords(containerId, defaultOptions);
+            await jest.runAllTimersAsync();
+            const errorContainer = instance.container.querySelector('.snap-records-error') as HTMLElement;
+            expect(errorContainer.style.display).toBe('block');
+            expect(errorContainer.textContent).toContain('Malformed response');
+            // Malformed payloads are not retried
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+        });
+
+        // Test case for an adapter that throws on an unexpected payload
+        it('should show a data error without retrying when the responseAdapter throws', async () => {
+            const onRetry = jest.fn();
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                lifecycleHooks: { onRetry },
+                responseAdapter: (json: any) => ({ data: json.items.map((row: TestData) => row), totalRecords: 0 }),
+            });
+            await jest.runAllTimersAsync();
+            const errorContainer = instance.container.querySelector('.snap-records-error') as HTMLElement;
+            expect(errorContainer.style.display).toBe('block');
+            expect(errorContainer.textContent).toContain('Malformed response from http://localhost/api/data');
+            expect(onRetry).not.toHaveBeenCalled();
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Query Dialects', () => {
+        // Helper returning the query of the first fetch after a sorted, filtered search
+        const queryFor = async (options: Partial<SnapRecordsOptions<TestData>>) => {
+            const instance = new SnapRecords(containerId, { ...defaultOptions, ...options });
+            await jest.runAllTimersAsync();
+            instance.getApi().updateParams({
+                currentPage: 2,
+                filters: { name: "O'Neil" },
+                sortConditions: [['name', 'DESC' as any], ['id', 'ASC' as any]],
+            });
+            await jest.runAllTimersAsync();
+            return new URL((global.fetch as jest.Mock).mock.calls[1][0]).searchParams;
+        };
+
+        // Test case for the JSON:API dialect
+        it('should serialize JSON:API query parameters', async () => {
+            const query = await queryFor({ queryDialect: 'jsonapi' });
+            expect(query.get('page[number]')).toBe('2');
+            expect(query.get('page[size]')).toBe('10');
+            expect(query.get('sort')).toBe('-name,id');
+            expect(query.get('filter[name]')).toBe("O'Neil");
+        });
+
+        // Test case for the OData dialect
+        it('should serialize OData query parameters', async () => {
+            const query = await queryFor({ queryDialect: 'odata' });
+            expect(query.get('$top')).toBe('10');
+            expect(query.get('$skip')).toBe('10');
+            expect(query.get('$orderby')).toBe('name desc,id asc');
+            expect(query.get('$filter')).toBe("contains(name,'O''Neil')");
+        });
+
+        // Test case for the Spring Data dialect
+        it('should serialize Spring Data query parameters', async () => {
+            const query = await queryFor({ queryDialect: 'spring' });
+            expect(query.get('page')).toBe('1');
+            expect(query.get('size')).toBe('10');
+            expect(query.getAll('sort')).toEqual(['name,desc', 'id,asc']);
+        });
+
+        // Test case for the DataTables dialect with field paths and computed columns
+        it('should serialize DataTables columns by their resolved field paths', async () => {
+            const query = await queryFor({
+                queryDialect: 'datatables',
+                columns: undefined,
+                columnTitles: undefined,
+                columnDefs: [
+                    { key: 'id' },
+                    { key: 'name', field: 'tags[0]' },
+                    { key: 'total', valueGetter: (row) => row.price * row.qty },
+                ],
+            });
+            expect(query.get('start')).toBe('10');
+            expect(query.get('columns[1][data]')).toBe('tags.0');
+            expect(query.get('columns[1][search][value]')).toBe("O'Neil");
+            expect(query.has('columns[2][data]')).toBe(false);
+            expect(query.get('order[0][column]')).toBe('1');
+            expect(query.get('order[0][dir]')).toBe('desc');
+            expect(query.get('order[1][column]')).toBe('0');
+        });
+
+        // Test case for a custom serializer
+        it('should use a custom querySerializer', async () => {
+            const query = await queryFor({
+                querySerializer: (params) => `p=${params.page}&limit=${params.perPage}`,
+            });
+            expect(query.get('p')).toBe('2');
+            expect(query.get('limit')).toBe('10');
+        });
+
+        // Test case for a serializer that throws, reported like any other load error
+        it('should show the error panel when the querySerializer throws', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                retryAttempts: 0,
+                querySerializer: () => {
+                    throw new Error('Bad params');
+                },
+            });
+            await jest.runAllTimersAsync();
+            expect(global.fetch).not.toHaveBeenCalled();
+            const errorPanel = instance.container.querySelector<HTMLElement>('.snap-records-error')!;
+            expect(errorPanel.textContent).toContain('Bad params');
+            instance.destroy();
+        });
+
+        // Test case for an unknown dialect
+        it('should reject an unknown queryDialect', () => {
+            expect(() => {
+                new SnapRecords(containerId, { ...defaultOptions, queryDialect: 'graphql' as any });
+            }).toThrow("Unknown queryDialect 'graphql'");
+        });
+    });
+
+    describe('Cursor Pagination', () => {
+        // Serves two pages linked by cursors, without a total count
+        const cursorSource = () => ({
+            load: jest.fn((params) =>
+                Promise.resolve(
+                    params.cursor === 'c2'
+                        ? { data: [{ id: 3, name: 'Third' }], nextCursor: null, prevCursor: 'c1' }
+                        : { data: [{ id: 1, name: 'First' }, { id: 2, name: 'Second' }], nextCursor: 'c2' }
+                )
+            ),
+        });
+
+        // Test case for sending the next cursor instead of jumping by offset
+        it('should request the next page with the cursor returned by the server', async () => {
+            const dataSource = cursorSource();
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                rowsPerPage: 2 as any,
+                cursorPagination: true,
+                dataSource,
+            });
+            await jest.runAllTimersAsync();
+            instance.getApi().gotoPage(2);
+            await jest.runAllTimersAsync();
+            expect(dataSource.load).toHaveBeenLastCalledWith(
+                expect.objectContaining({ page: 2, cursor: 'c2' }),
+                expect.anything()
+            );
+            expect(instance.getData()[0].name).toBe('Third');
+            expect(instance.hasNextPage()).toBe(false);
+        });
+
+        // Test case for the previous/next-only footer when the total is unknown
+        it('should render previous/next pagination without a total', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                rowsPerPage: 2 as any,
+                cursorPagination: true,
+                dataSource: cursorSource(),
+            });
+            await jest.runAllTimersAsync();
+            const pagination = instance.container.querySelector('.snap-pagination-container')!;
+            expect(pagination.querySelectorAll('button')).toHaveLength(2);
+            expect(pagination.textContent).toContain('Current page: 1');
+            const totals = instance.container.querySelector('.snap-totals')!;
+            expect(totals.textContent).toBe('Showing 1 to 2 records');
+            // Pages without a known cursor cannot be jumped to
+            instance.gotoPage(5);
+            await jest.runAllTimersAsync();
+            expect(instance.state.currentPage).toBe(1);
+        });
+    });
+
+    describe('Pagination Modes', () => {
+        // Serves 25 records in pages through a data source
+        const pagedSource = () => ({
+            load: jest.fn((params) =>
+                Promise.resolve({
+                    data: Array.from({ length: 25 }, (_, i) => ({ id: i + 1, name: `Row ${i + 1}` }))
+                        .slice(params.offset, params.offset + params.perPage),
+                    totalRecords: 25,
+                })
+            ),
+        });
+
+        // Test case for appending pages with the "Load more" button
+        it('should append the next page and keep rendered rows in loadMore mode', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                paginationMode: 'loadMore',
+                dataSource: pagedSource(),
+            });
+            await jest.runAllTimersAsync();
+            const firstRow = instance.container.querySelector('tr[data-key="1"]');
+            const button = instance.container.querySelector<HTMLButtonElement>('.snap-load-more')!;
+            expect(button.textContent).toBe('Load More');
+            button.click();
+            await jest.runAllTimersAsync();
+            expect(instance.getData()).toHaveLength(20);
+            expect(instance.container.querySelectorAll('tbody tr')).toHaveLength(20);
+            // The first row element is reused rather than recreated
+            expect(instance.container.querySelector('tr[data-key="1"]')).toBe(firstRow);
+            expect(instance.container.querySelector('.snap-totals')!.textContent).toBe(
+                'Showing 1 to 20 of 25 records'
+            );
+        });
+
+        // Test case for infinite scroll driven by the sentinel
+        it('should load more cards when the infinite scroll sentinel becomes visible', async () => {
+            let trigger: () => void = () => {};
+            (window as any).IntersectionObserver = jest.fn((callback) => ({
+                observe: () => {
+                    trigger = () => callback([{ isIntersecting: true }]);
+                },
+                disconnect: jest.fn(),
+            }));
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                format: RenderType.MOBILE_CARDS,
+                paginationMode: 'infinite',
+                dataSource: pagedSource(),
+            });
+            await jest.runAllTimersAsync();
+            expect(instance.container.querySelector('.snap-infinite-sentinel')).not.toBeNull();
+            trigger();
+            await jest.runAllTimersAsync();
+            trigger();
+            await jest.runAllTimersAsync();
+            expect(instance.container.querySelectorAll('.snap-mobile-card')).toHaveLength(25);
+            // The sentinel disappears once the last page is loaded
+            expect(instance.container.querySelector('.snap-infinite-sentinel')).toBeNull();
+            delete (window as any).IntersectionObserver;
+        });
+    });
+
+    describe('Virtualization', () => {
+        const manyRows = Array.from({ length: 1000 }, (_, i) => ({ id: i + 1, name: `Row ${i + 1}` }));
+
+        // Test case for rendering only the visible window plus overscan
+        it('should render only the visible rows with spacers for the rest', async () => {
+            const { url, ...options } = defaultOptions;
+            const instance = new SnapRecords(containerId, {
+                ...options,
+                data: manyRows,
+                rowsPerPage: 1000 as any,
+                virtualization: { itemHeight: 30, height: 300, overscan: 5 },
+            });
+            await jest.runAllTimersAsync();
+            // 10 visible rows plus 5 overscan rows below
+            expect(instance.container.querySelectorAll('tbody tr[data-key]')).toHaveLength(15);
+            const spacers = instance.container.querySelectorAll<HTMLElement>('tbody .snap-virtual-spacer');
+            expect(spacers).toHaveLength(2);
+            expect(spacers[1].style.height).toBe(`${985 * 30}px`);
+            // Scrolling moves the rendered window
+            const scroller = instance.container.querySelector<HTMLElement>('.snap-virtual-scroller')!;
+            scroller.scrollTop = 3000;
+            scroller.dispatchEvent(new Event('scroll'));
+            await jest.runAllTimersAsync();
+            expect(instance.container.querySelector('tr[data-key="101"]')).not.toBeNull();
+            expect(instance.container.querySelector('tr[data-key="1"]')).toBeNull();
+        });
+
+        // Test case for keyboard navigation reaching off-screen list items
+        it('should scroll to off-screen items during keyboard navigation', async () => {
+            Element.prototype.scrollIntoView = jest.fn();
+            const { url, ...options } = defaultOptions;
+            const instance = new SnapRecords(containerId, {
+                ...options,
+                data: manyRows,
+                rowsPerPage: 1000 as any,
+                format: RenderType.LIST,
+                virtualization: { itemHeight: 30, height: 300, overscan: 5 },
+            });
+            await jest.runAllTimersAsync();
+            for (let i = 0; i <= 40; i++) instance.renderer.navigateToNextRow();
+            const current = instance.container.querySelector('li.snap-current-row') as HTMLElement;
+            expect(current.dataset.index).toBe('40');
+            expect(instance.container.querySelector<HTMLElement>('.snap-virtual-scroller')!.scrollTop).toBeGreaterThan(0);
+        });
+    });
+
+    describe('Retry Policy', () => {
+        // Builds a failed fetch response with the given status and headers
+        const failedResponse = (status: number, headers: Record<string, string> = {}) => ({
+            ok: false,
+            status,
+            headers: new Headers(headers),
+            json: () => Promise.resolve({}),
+        });
+
+        // Test case for honouring Retry-After on retryable statuses
+        it('should retry a 503 after the Retry-After delay and report it to onRetry', async () => {
+            const onRetry = jest.fn();
+            (global.fetch as jest.Mock).mockResolvedValueOnce(failedResponse(503, { 'Retry-After': '2' }));
+            const instance = new SnapRecords(containerId, { ...defaultOptions, lifecycleHooks: { onRetry } });
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(onRetry).toHaveBeenCalledWith(
+                expect.objectContaining({ attempt: 1, maxAttempts: 3, delayMs: 2000 })
+            );
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            await jest.runAllTimersAsync();
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+            expect(instance.getData()[0].name).toBe('Test User');
+        });
+
+        // Test case for Retry-After values beyond the longest allowed delay
+        it('should cap the Retry-After delay at maxDelayMs', async () => {
+            const onRetry = jest.fn();
+            (global.fetch as jest.Mock).mockResolvedValueOnce(failedResponse(503, { 'Retry-After': '3600' }));
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                retryPolicy: { maxDelayMs: 5000 },
+                lifecycleHooks: { onRetry },
+            });
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delayMs: 5000 }));
+            await jest.advanceTimersByTimeAsync(5000);
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+            expect(instance.getData()[0].name).toBe('Test User');
+        });
+
+        // Test case for errors that cannot succeed on a retry
+        it('should not retry non-retryable statuses or invalid JSON', async () => {
+            (global.fetch as jest.Mock).mockResolvedValueOnce(failedResponse(404));
+            new SnapRecords(containerId, defaultOptions);
+            await jest.runAllTimersAsync();
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+
+            (global.fetch as jest.Mock).mockClear();
+            (global.fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true,
+                json: () => Promise.reject(new SyntaxError('Unexpected token <')),
+            });
+            const instance = new SnapRecords(containerId, defaultOptions);
+            await jest.runAllTimersAsync();
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            expect(instance.container.querySelector('.snap-records-error')!.textContent).toContain('Invalid JSON');
+        });
+
+        // Test case for stopping pending retries on destroy
+        it('should stop retrying once destroyed', async () => {
+            (global.fetch as jest.Mock).mockResolvedValue(failedResponse(502));
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                retryPolicy: { baseDelayMs: 1000, jitter: false },
+            });
+            await jest.advanceTimersByTimeAsync(500);
+            instance.destroy();
+            await jest.runAllTimersAsync();
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Offline Mode', () => {
+        const setOnline = (online: boolean) =>
+            Object.defineProperty(navigator, 'onLine', { value: online, configurable: true });
+        afterEach(() => setOnline(true));
+        // Serves an expired entry only to lookups that accept stale data
+        const stubCache = (instance: SnapRecords<TestData>, data: TestData[], timestamp: number) =>
+            jest.spyOn(instance.cacheManager, 'getCachedData').mockImplementation(
+                async (url, allowStale) => (allowStale ? { url, data, totalRecords: data.length, timestamp } : undefined)
+            );
+
+        // Test case for falling back to an expired cached copy and revalidating
+        it('should serve expired cached data with a banner and revalidate when online', async () => {
+            (global.fetch as jest.Mock).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                useCache: true,
+                retryAttempts: 0,
+            });
+            const cachedAt = Date.now() - 2 * instance.cacheExpiry;
+            stubCache(instance, [{ id: 9, name: 'Cached User' }], cachedAt);
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(instance.getData()[0].name).toBe('Cached User');
+            expect(instance.offlineDataTimestamp).toBe(cachedAt);
+            expect(instance.container.querySelector('.snap-offline-banner')!.textContent).toContain('Offline');
+            expect(instance.container.querySelector<HTMLElement>('.snap-records-error')!.style.display).toBe('none');
+
+            window.dispatchEvent(new Event('online'));
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+            expect(instance.getData()[0].name).toBe('Test User');
+            expect(instance.container.querySelector('.snap-offline-banner')).toBeNull();
+            instance.destroy();
+        });
+
+        // Test case for HTTP errors, which are shown even when a copy is cached
+        it('should show the error panel for a 500 despite a cached copy', async () => {
+            (global.fetch as jest.Mock).mockResolvedValueOnce({
+                ok: false,
+                status: 500,
+                headers: new Headers(),
+            });
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                useCache: true,
+                retryAttempts: 0,
+            });
+            stubCache(instance, [{ id: 9, name: 'Cached User' }], Date.now() - 2 * instance.cacheExpiry);
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(instance.getData()).toEqual([]);
+            expect(instance.offlineDataTimestamp).toBeNull();
+            expect(instance.container.querySelector('.snap-offline-banner')).toBeNull();
+            const errorPanel = instance.container.querySelector<HTMLElement>('.snap-records-error')!;
+            expect(errorPanel.style.display).not.toBe('none');
+            expect(errorPanel.textContent).toContain('500');
+            instance.destroy();
+        });
+
+        // Test case for TypeErrors thrown by data bugs rather than by an unreachable server
+        it('should show the error panel for an adapter TypeError despite a cached copy', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                useCache: true,
+                retryAttempts: 0,
+                responseAdapter: (json: any) => json.items.map((row: TestData) => row),
+            });
+            stubCache(instance, [{ id: 9, name: 'Cached User' }], Date.now() - 2 * instance.cacheExpiry);
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(instance.offlineDataTimestamp).toBeNull();
+            expect(instance.container.querySelector('.snap-offline-banner')).toBeNull();
+            const errorPanel = instance.container.querySelector<HTMLElement>('.snap-records-error')!;
+            expect(errorPanel.style.display).not.toBe('none');
+            instance.destroy();
+        });
+
+        // Test case for custom data sources reporting an unreachable server
+        it('should fall back to the cached copy for a SnapRecordsNetworkError only', async () => {
+            const load = jest.fn().mockRejectedValue(new TypeError('Cannot read properties of undefined'));
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                useCache: true,
+                retryAttempts: 0,
+                dataSource: { load },
+            });
+            stubCache(instance, [{ id: 9, name: 'Cached User' }], Date.now() - 2 * instance.cacheExpiry);
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(instance.offlineDataTimestamp).toBeNull();
+
+            load.mockRejectedValue(new SnapRecordsNetworkError('Server unreachable'));
+            instance.refresh();
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(instance.getData()[0].name).toBe('Cached User');
+            expect(instance.offlineDataTimestamp).not.toBeNull();
+            instance.destroy();
+        });
+
+        // Test case for skipping the request while the browser is offline
+        it('should not fetch while navigator.onLine is false and a copy is cached', async () => {
+            setOnline(false);
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                useCache: true,
+            });
+            stubCache(instance, [{ id: 3, name: 'Old' }], 1);
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(global.fetch).not.toHaveBeenCalled();
+            expect(instance.getData()[0].name).toBe('Old');
+            instance.destroy();
+        });
+    });
+
+    describe('Cache Strategies', () => {
+        const cachedPage = (url: string) => ({
+            url,
+            data: [{ id: 1, name: 'Test User' }],
+            totalRecords: 1,
+            timestamp: Date.now(),
+        });
+
+        // Test case for instant cached renders revalidated in the background
+        it('should render the cached page and re-render only when the server payload changed', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                useCache: true,
+                cacheStrategy: 'stale-while-revalidate',
+            });
+            jest.spyOn(instance.cacheManager, 'getCachedData').mockImplementation(async (url) => cachedPage(url));
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            const render = jest.spyOn(instance.renderer, 'render');
+            instance.refresh();
+            await jest.advanceTimersByTimeAsync(1000);
+            // The cached render happens once; the unchanged revalidation does not re-render
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+            expect(render).toHaveBeenCalledTimes(1);
+
+            (global.fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true,
+                json: () => Promise.resolve({ totalRecords: 1, data: [{ id: 1, name: 'Renamed' }] }),
+            });
+            instance.refresh();
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(render).toHaveBeenCalledTimes(3);
+            expect(instance.getData()[0].name).toBe('Renamed');
+        });
+
+        // Test case for revalidating an expired page with its validators
+        it('should send If-None-Match and keep the cached page on 304 Not Modified', async () => {
+            (global.fetch as jest.Mock).mockResolvedValueOnce({
+                ok: false,
+                status: 304,
+                headers: new Headers({ ETag: '"v1"' }),
+            });
+            const instance = new SnapRecords(containerId, { ...defaultOptions, useCache: true });
+            const expired = {
+                ...cachedPage('http://localhost/api/data?page=1&perPage=10&offset=0'),
+                data: [{ id: 4, name: 'Cached' }],
+                timestamp: Date.now() - 2 * instance.cacheExpiry,
+                etag: '"v1"',
+                lastModified: 'Wed, 21 Oct 2026 07:28:00 GMT',
+            };
+            jest.spyOn(instance.cacheManager, 'getCachedData').mockResolvedValue(expired);
+            const cacheData = jest.spyOn(instance.cacheManager, 'cacheData').mockResolvedValue();
+            await jest.advanceTimersByTimeAsync(1000);
+            expect((global.fetch as jest.Mock).mock.calls[0][1].headers).toEqual(
+                expect.objectContaining({
+                    'If-None-Match': '"v1"',
+                    'If-Modified-Since': 'Wed, 21 Oct 2026 07:28:00 GMT',
+                })
+            );
+            expect(instance.getData()[0].name).toBe('Cached');
+            expect(cacheData).toHaveBeenCalledWith(
+                expired.url,
+                expect.objectContaining({ etag: '"v1"', data: expired.data })
+            );
+            expect(cacheData.mock.calls[0][1].timestamp).toBeGreaterThan(expired.timestamp);
+        });
+
+        // Test case for preferring the network over a valid cached page
+        it('should fetch first with network-first even when the cache is valid', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                useCache: true,
+                cacheStrategy: 'network-first',
+            });
+            const getCachedData = jest
+                .spyOn(instance.cacheManager, 'getCachedData')
+                .mockImplementation(async (url) => ({ ...cachedPage(url), data: [{ id: 2, name: 'Cached' }] }));
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(getCachedData).toHaveBeenCalled();
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            expect(instance.getData()[0].name).toBe('Test User');
+        });
+    });
+
+    describe('IndexedDB Cache', () => {
+        // fake-indexeddb writes need structuredClone (missing in jsdom) and real timers
+        beforeEach(() => {
+            jest.useRealTimers();
+            (global as any).structuredClone = (value: unknown) => JSON.parse(JSON.stringify(value));
+        });
+        afterEach(() => {
+            delete (global as any).structuredClone;
+            jest.useFakeTimers();
+        });
+
+        // Test case for tags, url prefixes, row ids and predicates
+        it('should delete only the cached pages matching the filter', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                url: 'http://localhost/api/invalidate',
+                useCache: true,
+                cacheTags: (params) => [`page:${params.page}`, 'users'],
+            });
+            await instance.loadData();
+            const [loaded] = await instance.db.cache.toArray();
+            expect(loaded.tags).toEqual(['page:1', 'users']);
+            await instance.db.cache.bulkPut([
+                { url: 'http://localhost/api/orders?page=1', data: [{ id: 42, name: 'A' }], totalRecords: 1, timestamp: 1 },
+                { url: 'http://localhost/api/orders?page=2', data: [{ id: 7, name: 'B' }], totalRecords: 1, timestamp: 1, tags: ['archived'] },
+            ]);
+            const api = instance.getApi();
+            await expect(api.invalidateCache({ rowId: '42' })).resolves.toBe(1);
+            await expect(api.invalidateCache({ tags: ['users', 'none'] })).resolves.toBe(1);
+            await expect(api.invalidateCache({ urlPrefix: 'http://localhost/api/users' })).resolves.toBe(0);
+            await expect(api.invalidateCache((entry) => entry.url.endsWith('page=2'))).resolves.toBe(1);
+            expect(await instance.db.cache.count()).toBe(0);
+            instance.destroy();
+        });
+
+        // Test case for cached pages outdated by upserted and removed records
+        it('should drop the cached current page and pages holding a changed record', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                url: 'http://localhost/api/records',
+                useCache: true,
+            });
+            await instance.loadData();
+            const [current] = await instance.db.cache.toArray();
+            await instance.db.cache.bulkPut([
+                { url: 'http://localhost/api/records?page=2', data: [{ id: 42, name: 'A' }], totalRecords: 1, timestamp: Date.now() },
+                { url: 'http://localhost/api/records?page=3', data: [{ id: 7, name: 'B' }], totalRecords: 1, timestamp: Date.now() },
+            ]);
+            instance.upsertRecord({ id: 1, name: 'Renamed' });
+            instance.removeRecord(42);
+            // IndexedDB runs the deletions before this later read
+            const urls = await instance.db.cache.toCollection().primaryKeys();
+            expect(urls).toEqual(['http://localhost/api/records?page=3']);
+            expect(urls).not.toContain(current.url);
+            instance.destroy();
+        });
+
+        // Test case for the cacheMaxEntries limit and quota recovery
+        it('should evict the oldest pages beyond the limit and prune when the quota is exceeded', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                url: 'http://localhost/api/limits',
+                useCache: true,
+                cacheMaxEntries: 2,
+            });
+            await new Promise((resolve) => setTimeout(resolve, 400));
+            const table = instance.db.cache;
+            await table.clear();
+            const now = Date.now();
+            const store = (url: string, timestamp: number) =>
+                instance.cacheManager.cacheData(url, { url, data: [], totalRecords: 0, timestamp });
+            await store('page-1', now - 3);
+            await store('page-2', now - 1);
+            await store('page-3', now - 2);
+            expect((await table.toCollection().primaryKeys()).sort()).toEqual(['page-2', 'page-3']);
+
+            jest.spyOn(table, 'put').mockRejectedValueOnce(
+                Object.assign(new Error('Quota exceeded'), { name: 'QuotaExceededError' })
+            );
+            await store('page-4', now);
+            // The oldest half (page-3) is pruned before the write is retried
+            expect((await table.toCollection().primaryKeys()).sort()).toEqual(['page-2', 'page-4']);
+            instance.destroy();
+        });
+
+        // Test case for versioned, scoped databases and deleting them on logout
+        it('should wipe other cache versions, scope databases and delete them all', async () => {
+            const create = (cacheVersion: string) =>
+                new SnapRecords(containerId, {
+                    ...defaultOptions,
+                    url: 'http://localhost/api/scoped',
+                    useCache: true,
+                    cacheScope: 'tenant-7',
+                    cacheVersion,
+                });
+            const first = create('1');
+            expect(first.db.name).toBe(`SnapRecordsDB_${containerId}_tenant-7`);
+            await first.db.cache.put({ url: 'page', data: [], totalRecords: 0, timestamp: Date.now() });
+            first.destroy();
+            const same = create('1');
+            expect(await same.db.cache.count()).toBe(1);
+            same.destroy();
+            const upgraded = create('2');
+            expect(await upgraded.db.cache.count()).toBe(0);
+            upgraded.destroy();
+
+            await expect(SnapRecords.deleteAllCaches()).resolves.toBeGreaterThan(0);
+            expect(
+                (await indexedDB.databases()).filter((db) => db.name?.startsWith('SnapRecordsDB_'))
+            ).toEqual([]);
+        });
+    });
+
+    describe('Live Updates', () => {
+        // Minimal EventSource stand-in capturing the latest connection
+        let source: { url: string; onmessage: ((event: { data: string }) => void) | null; close: jest.Mock };
+        beforeEach(() => {
+            (window as any).EventSource = jest.fn((url: string) => {
+                source = { url, onmessage: null, close: jest.fn() };
+                return source;
+            });
+        });
+        afterEach(() => {
+            delete (window as any).EventSource;
+        });
+        const send = (message: unknown) => source.onmessage!({ data: JSON.stringify(message) });
+
+        // Test case for in-place updates and deletes over SSE
+        it('should upsert and delete rows by id touching only their elements', async () => {
+            (global.fetch as jest.Mock).mockResolvedValue({
+                ok: true,
+                json: () => Promise.resolve({
+                    totalRecords: 2,
+                    data: [{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob' }],
+                }),
+            });
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                liveUpdates: { url: 'http://localhost/api/stream' },
+            });
+            await jest.runAllTimersAsync();
+            expect(source.url).toBe('http://localhost/api/stream');
+            const secondRow = instance.container.querySelector('tr[data-key="2"]');
+            send({ type: 'upsert', record: { id: 1, name: 'Anna' } });
+            expect(instance.getData()[0].name).toBe('Anna');
+            expect(instance.container.querySelector('tr[data-key="1"]')!.textContent).toContain('Anna');
+            send({ type: 'delete', id: 1 });
+            expect(instance.container.querySelector('tr[data-key="1"]')).toBeNull();
+            // The remaining row keeps its element and is re-indexed
+            expect(instance.container.querySelector('tr[data-key="2"]')).toBe(secondRow);
+            expect((secondRow as HTMLElement).dataset.index).toBe('0');
+            expect(instance.getTotals().totalRecords).toBe(1);
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            instance.destroy();
+            expect(source.close).toHaveBeenCalled();
+        });
+
+        // Test case for records that are not on the current page
+        it('should refresh or prepend when an unknown record is inserted', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                liveUpdates: { url: 'http://localhost/api/stream' },
+            });
+            await jest.runAllTimersAsync();
+            send({ type: 'upsert', record: { id: 5, name: 'New' } });
+            await jest.runAllTimersAsync();
+            // The default policy reloads so the server can place the record
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+            instance.upsertRecord({ id: 6, name: 'Feed item' }, 'prepend');
+            expect(instance.getData()[0].name).toBe('Feed item');
+            expect(instance.container.querySelector('tbody tr')!.getAttribute('data-key')).toBe('6');
+        });
+    });
+
+    describe('Auto Refresh', () => {
+        const setVisibility = (state: DocumentVisibilityState) => {
+            Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+            document.dispatchEvent(new Event('visibilitychange'));
+        };
+        afterEach(() => setVisibility('visible'));
+
+        // Test case for background polls keeping the user's context
+        it('should poll without the loading overlay and keep the selection', async () => {
+            const load = jest.fn()
+                .mockResolvedValueOnce({ data: [{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob' }], totalRecords: 2 })
+                .mockResolvedValue({ data: [{ id: 3, name: 'Cid' }, { id: 2, name: 'Bobby' }], totalRecords: 2 });
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                dataSource: { load },
+                selectable: true,
+                autoRefresh: { intervalMs: 5000 },
+            });
+            await jest.advanceTimersByTimeAsync(1000);
+            instance.selectedRows.add(1);
+            const showLoading = jest.spyOn(instance.renderer, 'showLoading');
+            await jest.advanceTimersByTimeAsync(5000);
+            expect(load).toHaveBeenCalledTimes(2);
+            expect(showLoading).not.toHaveBeenCalled();
+            expect(instance.getData()[1].name).toBe('Bobby');
+            expect(instance.getSelectedRows().map((row) => row.id)).toEqual([2]);
+            instance.destroy();
+            await jest.advanceTimersByTimeAsync(10000);
+            expect(load).toHaveBeenCalledTimes(2);
+        });
+
+        // Test case for pausing while the tab is hidden
+        it('should skip polls while hidden and refresh when visible again', async () => {
+            const load = jest.fn().mockResolvedValue({ data: [{ id: 1, name: 'Ann' }], totalRecords: 1 });
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                dataSource: { load },
+                autoRefresh: { intervalMs: 5000 },
+            });
+            await jest.advanceTimersByTimeAsync(1000);
+            setVisibility('hidden');
+            await jest.advanceTimersByTimeAsync(20000);
+            expect(load).toHaveBeenCalledTimes(1);
+            setVisibility('visible');
+            await jest.advanceTimersByTimeAsync(0);
+            expect(load).toHaveBeenCalledTimes(2);    instance.destroy();
+        });
+    });
+
+    describe('Request Cancellation', () => {
+        // Test case for stale responses arriving after a newer load
+        it('should abort superseded loads and discard their responses', async () => {
+            const pending: Array<{ resolve: (value: unknown) => void; signal: AbortSignal }> = [];
+            const load = jest.fn((params, context) => new Promise((resolve) => {
+                pending.push({ resolve, signal: context.signal });
+            }));
+            const instance = new SnapRecords(containerId, { ...defaultOptions, dataSource: { load } as any });
+            await jest.runAllTimersAsync();
+            // Start two overlapping loads
+            const first = instance.loadData();
+            const second = instance.loadData();
+            const [initial, older, newer] = pending;
+            expect(older.signal.aborted).toBe(true);
+            expect(newer.signal.aborted).toBe(false);
+            // Resolve the newer load first, then the stale one
+            newer.resolve({ data: [{ id: 2, name: 'Newer' }], totalRecords: 1 });
+            await second;
+            older.resolve({ data: [{ id: 1, name: 'Older' }], totalRecords: 1 });
+            initial.resolve({ data: [{ id: 0, name: 'Initial' }], totalRecords: 1 });
+            await first;
+            await jest.runAllTimersAsync();
+            // Verify the stale responses never reached the state
+            expect(instance.getData()[0].name).toBe('Newer');
+        });
+
+        // Test case for aborting on destroy
+        it('should abort the in-flight load when destroyed', async () => {
+            let signal: AbortSignal | undefined;
+            const load = jest.fn((params, context) => {
+                signal = context.signal;
+                return new Promise(() => {});
+            });
+            const instance = new SnapRecords(containerId, { ...defaultOptions, dataSource: { load } as any });
+            await jest.runAllTimersAsync();
+            instance.destroy();
+            expect(signal!.aborted).toBe(true);
+        });
+    });
+
+    describe('Client-side Mode', () => {
+        const rows = [
+            { id: 1, name: 'Charlie' },
+            { id: 2, name: 'alice' },
+            { id: 3, name: 'Bob' },
+        ];
+
+        // Test case for local pagination without a URL
+        it('should paginate a local array without calling fetch', async () => {
+            const { url, ...options } = defaultOptions;
+            const instance = new SnapRecords(containerId, { ...options, data: rows, rowsPerPage: 2 as any });
+            await jest.runAllTimersAsync();
+            expect(global.fetch).not.toHaveBeenCalled();
+            expect(instance.getData().map((row) => row.id)).toEqual([1, 2]);
+            expect(instance.getTotals().totalRecords).toBe(3);
+            // Navigate to the second page
+            instance.getApi().gotoPage(2);
+            await jest.runAllTimersAsync();
+            expect(instance.getData().map((row) => row.id)).toEqual([3]);
+        });
+
+        // Test case for local sorting and filtering
+        it('should sort and filter local records', async () => {
+            const instance = new SnapRecords(containerId, { ...defaultOptions, data: rows });
+            await jest.runAllTimersAsync();
+            // Sort by name via the header link
+            const headerLink = instance.container.querySelector('th[data-col-id="name"] a');
+            headerLink!.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+            await jest.runAllTimersAsync();
+            expect(instance.getData().map((row) => row.name)).toEqual(['alice', 'Bob', 'Charlie']);
+            // Filter by a case-insensitive substring
+            instance.getApi().search({ name: 'B' });
+            await jest.runAllTimersAsync();
+            expect(instance.getData().map((row) => row.name)).toEqual(['Bob']);
+        });
+
+        // Test case for replacing records through the API
+        it('api.setData() should switch to local records', async () => {
+            const instance = new SnapRecords(containerId, defaultOptions);
+            await jest.runAllTimersAsync();
+            instance.getApi().setData(rows);
+            await jest.runAllTimersAsync();
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            expect(instance.getTotals().totalRecords).toBe(3);
+        });
+    });
+
+    describe('Column Definitions', () => {
+        // Test case for rendering columns from their definitions
+        it('should render headers and cells from columnDefs', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                columns: undefined,
+                columnTitles: undefined,
+                columnDefs: [
+                    { key: 'id', title: 'ID', sortable: false, width: 80, align: 'right' },
+                    {
+                        key: 'name',
+                        title: 'Full name',
+                        headerClass: 'name-header',
+                        cellClass: 'name-cell',
+                        formatter: (value) => String(value).toUpperCase(),
+                    },
+                    { key: 'email', visible: false },
+                ],
+            });
+            await jest.runAllTimersAsync();
+            const headers = instance.container.querySelectorAll('th');
+            expect(Array.from(headers).map((th) => th.dataset.colId)).toEqual(['id', 'name']);
+            expect(headers[0].querySelector('a')).toBeNull();
+            expect(headers[0].style.width).toBe('80px');
+            expect(headers[1].className).toBe('name-header');
+            expect(headers[1].querySelector('a')!.textContent).toBe('Full name');
+            const cells = instance.container.querySelectorAll('tr[data-index="0"] td');
+            expect(cells).toHaveLength(2);
+            expect((cells[0] as HTMLElement).style.textAlign).toBe('right');
+            expect(cells[1].className).toBe('name-cell');
+            expect(cells[1].innerHTML).toBe('TEST USER');
+        });
+
+        // Test case for the shorthand arrays
+        it('should build column definitions from the shorthand arrays', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                headerCellClasses: ['no-sorting', ''],
+                columnFormatters: { name: (value) => `<b>${value}</b>` },
+            });
+            await jest.runAllTimersAsync();
+            expect(instance.state.columns).toEqual(['id', 'name']);
+            expect(instance.state.columnDefs.id).toEqual(
+                expect.objectContaining({ title: 'ID', headerClass: 'no-sorting', sortable: false })
+            );
+            expect(instance.state.columnDefs.name).toEqual(
+                expect.objectContaining({ title: 'Name', sortable: true })
+            );
+            expect(instance.container.querySelector('td[data-col-id="name"]')!.innerHTML).toBe(
+                '<b>Test User</b>'
+            );
+        });
+
+        // Test case for column settings restricting filters and configuration errors
+        it('should ignore filters on columns that are not filterable', async () => {
+            expect(
+                () =>
+                    new SnapRecords(containerId, {
+                        ...defaultOptions,
+                        columnDefs: [{ key: 'id' }, { key: 'id' }],
+                    })
+            ).toThrow("Duplicate column key 'id'.");
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                columnDefs: [{ key: 'id', filterable: false }, { key: 'name' }],
+            });
+            await jest.runAllTimersAsync();
+            instance.search({ id: '1', name: 'Test' });
+            await jest.runAllTimersAsync();
+            expect(instance.state.filters).toEqual({ name: 'Test' });
+        });
+    });
+
+    describe('Column Visibility', () => {
+        // Test case for the column chooser popover
+        it('should show and hide columns from the column chooser', async () => {
+            const instance = new SnapRecords(containerId, { ...defaultOptions, columnChooser: true });
+            await jest.runAllTimersAsync();
+            const button = instance.container.querySelector<HTMLButtonElement>('.snap-columns-button')!;
+            const popover = instance.container.querySelector<HTMLElement>('.snap-column-chooser')!;
+            expect(button.textContent).toBe('Columns');
+            expect(popover.hidden).toBe(true);
+            button.click();
+            expect(popover.hidden).toBe(false);
+            expect(button.getAttribute('aria-expanded')).toBe('true');
+
+            const nameBox = popover.querySelector<HTMLInputElement>('input[data-col-id="name"]')!;
+            nameBox.checked = false;
+            nameBox.dispatchEvent(new Event('change', { bubbles: true }));
+            const headers = () =>
+                Array.from(instance.container.querySelectorAll('th')).map((th) => th.dataset.colId);
+            expect(headers()).toEqual(['id']);
+            expect(instance.container.querySelectorAll('tr[data-index="0"] td')).toHaveLength(1);
+            // The popover stays open while columns are toggled
+            expect(popover.hidden).toBe(false);
+
+            // The last visible column cannot be hidden
+            instance.getApi().setColumnVisibility('id', false);
+            expect(headers()).toEqual(['id']);
+            instance.getApi().setColumnVisibility('name', true);
+            expect(headers()).toEqual(['id', 'name']);
+        });
+
+        // Test case for the table footer spanning the visible columns
+        it('should update the footer colSpan when columns are hidden and shown again', async () => {
+            const instance = new SnapRecords(containerId, defaultOptions);
+            await jest.runAllTimersAsync();
+            const footerCell = () => instance.container.querySelector<HTMLTableCellElement>('tfoot td')!;
+            expect(footerCell().colSpan).toBe(2);
+            instance.setColumnVisibility('name', false);
+            expect(footerCell().colSpan).toBe(1);
+            instance.setColumnVisibility('name', true);
+            expect(footerCell().colSpan).toBe(2);
+            instance.destroy();
+        });
+
+        // Test case for persisting hidden columns in storage and the URL
+        it('should keep hidden columns in persisted state and the URL', async () => {
+            localStorage.clear();
+            const options = { ...defaultOptions, persistState: true, usePushState: true };
+            const instance = new SnapRecords(containerId, options);
+            await jest.runAllTimersAsync();
+            instance.setColumnVisibility('name', false);
+            await jest.runAllTimersAsync();
+            expect(new URLSearchParams(window.location.search).get('hiddenColumns')).toBe('name');
+            const saved = JSON.parse(localStorage.getItem(instance.storageKey)!);
+            expect(saved.hiddenColumns).toEqual(['name']);
+            instance.destroy();
+            window.history.replaceState(null, '', '/');
+
+            document.body.innerHTML = `<div id="${containerId}"></div>`;
+            const restored = new SnapRecords(containerId, { ...options, format: RenderType.LIST });
+            await jest.runAllTimersAsync();
+            expect(restored.getVisibleColumns().map((def) => def.key)).toEqual(['id']);
+            expect(restored.container.querySelector('li')!.innerHTML).not.toContain('Name:');
+            restored.destroy();
+            localStorage.clear();
+        });
+    });
+
+    describe('Pinned Columns', () => {
+        // Test case for sticky offsets computed from the column widths
+        it('should render pinned columns on their side with sticky offsets', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                columns: undefined,
+                columnTitles: undefined,
+                columnDefs: [
+                    { key: 'email', width: 100, pinned: 'right' },
+                    { key: 'role' },
+                    { key: 'id', width: 80, pinned: 'left' },
+                    { key: 'name', width: 120, pinned: 'left' },
+                ],
+            });
+            await jest.runAllTimersAsync();
+            const header = (key: string) =>
+                instance.container.querySelector<HTMLElement>(`th[data-col-id="${key}"]`)!;
+            const cell = (key: string) =>
+                instance.container.querySelector<HTMLElement>(
+                    `tr[data-index="0"] td[data-col-id="${key}"]`
+                )!;
+            expect(
+                Array.from(instance.container.querySelectorAll('th')).map((th) => th.dataset.colId)
+            ).toEqual(['id', 'name', 'role', 'email']);
+            expect(header('id').style.left).toBe('0px');
+            expect(header('name').style.left).toBe('80px');
+            expect(cell('name').style.left).toBe('80px');
+            expect(cell('name').classList).toContain('snap-pinned-left');
+            expect(cell('name').classList).toContain('snap-pinned-edge');
+            expect(cell('id').classList).not.toContain('snap-pinned-edge');
+            expect(cell('email').style.right).toBe('0px');
+            expect(cell('role').classList).not.toContain('snap-pinned-left');
+
+            // Resizing a pinned column moves the pinned columns after it
+            instance.stateManager.setState((draft) => {
+                draft.columnWidths.set('id', 100);
+            });
+            instance.renderer.applyColumnWidths();
+            jest.advanceTimersByTime(20);
+            expect(header('name').style.left).toBe('100px');
+            expect(cell('name').style.left).toBe('100px');
+            instance.destroy();
+        });
+
+        // Test case for the header menu, reordering and persistence
+        it('should pin and unpin columns from the header menu', async () => {
+            localStorage.clear();
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                columnMenu: true,
+                persistState: true,
+            });
+            await jest.runAllTimersAsync();
+            const headers = () =>
+                Array.from(instance.container.querySelectorAll('th')).map((th) => th.dataset.colId);
+            const menuButton = instance.container.querySelector<HTMLButtonElement>(
+                'th[data-col-id="id"] .snap-column-menu-button'
+            )!;
+            expect(menuButton.getAttribute('aria-label')).toBe('Column options');
+            menuButton.click();
+            const menu = instance.container.querySelector<HTMLElement>('.snap-column-menu')!;
+            expect(menu.getAttribute('role')).toBe('menu');
+            expect(menuButton.getAttribute('aria-expanded')).toBe('true');
+            const unpin = menu.querySelector<HTMLButtonElement>('button[data-pin=""]')!;
+            expect(unpin.disabled).toBe(true);
+            menu.querySelector<HTMLButtonElement>('button[data-pin="right"]')!.click();
+            expect(instance.container.querySelector('.snap-column-menu')).toBeNull();
+            expect(headers()).toEqual(['name', 'id']);
+            expect(instance.state.columnDefs.id.pinned).toBe('right');
+
+            // A column dropped among pinned columns joins their side
+            instance.reorderColumns('name', 'id');
+            expect(instance.state.columnDefs.name.pinned).toBe('right');
+            await jest.runAllTimersAsync();
+            const saved = JSON.parse(localStorage.getItem(instance.storageKey)!);
+            expect(saved.pinnedColumns).toEqual({ name: 'right', id: 'right' });
+
+            instance.getApi().setColumnPinned('name', null);
+            expect(headers()).toEqual(['name', 'id']);
+            expect(
+                instance.container.querySelector('th[data-col-id="name"]')!.classList
+            ).not.toContain('snap-pinned-right');
+            instance.destroy();
+            localStorage.clear();
+        });
+    });
+
+    describe('Column Groups', () => {
+        const groupedOptions: SnapRecordsOptions<TestData> = {
+            ...defaultOptions,
+            columns: ['revenue', 'id', 'cost', 'name', 'margin'],
+            columnTitles: undefined,
+            columnGroups: [
+                {
+                    title: 'Q1',
+                    children: ['revenue', 'cost', { title: 'Result', children: ['margin'] }],
+                },
+            ],
+        };
+
+        // Test case for the header rows, spans and ARIA of grouped headers
+        it('should render grouped header rows with colspan and rowspan', async () => {
+            const instance = new SnapRecords(containerId, groupedOptions);
+            await jest.runAllTimersAsync();
+            expect(instance.state.columns).toEqual(['revenue', 'cost', 'margin', 'id', 'name']);
+            const rows = Array.from(instance.container.querySelectorAll('thead tr'));
+            const cells = (row: Element) =>
+                Array.from(row.querySelectorAll('th')).map(
+                    (th) => `${th.dataset.colId ?? th.textContent}:${th.colSpan}x${th.rowSpan}`
+                );
+            expect(rows).toHaveLength(3);
+            expect(cells(rows[0])).toEqual(['Q1:3x1', 'id:1x3', 'name:1x3']);
+            expect(cells(rows[1])).toEqual(['revenue:1x2', 'cost:1x2', 'Result:1x1']);
+            expect(cells(rows[2])).toEqual(['margin:1x1']);
+            const group = rows[0].querySelector('th')!;
+            expect(group.getAttribute('scope')).toBe('colgroup');
+            expect(group.classList).toContain('snap-column-group');
+            expect(group.querySelector('.snap-column-resize-handle')).toBeNull();
+
+            // Hidden columns shrink their group
+            instance.setColumnVisibility('cost', false);
+            const firstRow = instance.container.querySelector('thead tr')!;
+            expect(cells(firstRow)).toEqual(['Q1:2x1', 'id:1x3', 'name:1x3']);
+            instance.destroy();
+        });
+
+        // Test case for reordering columns within their group only
+        it('should only reorder columns within their group', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...groupedOptions,
+                draggableColumns: true,
+            });
+            await jest.runAllTimersAsync();
+            instance.reorderColumns('id', 'revenue');
+            instance.reorderColumns('margin', 'cost');
+            expect(instance.state.columns).toEqual(['revenue', 'cost', 'margin', 'id', 'name']);
+            instance.reorderColumns('cost', 'revenue');
+            instance.reorderColumns('name', 'id');
+            expect(instance.state.columns).toEqual(['cost', 'revenue', 'margin', 'name', 'id']);
+            expect(
+                instance.container.querySelector('th[data-col-id="cost"]')!.getAttribute('draggable')
+            ).toBe('true');
+            instance.destroy();
+        });
+
+        // Test case for invalid group definitions
+        it('should reject groups referring to unknown or repeated columns', () => {
+            const withGroups = (columnGroups: SnapRecordsOptions<TestData>['columnGroups']) => () =>
+                new SnapRecords(containerId, { ...defaultOptions, columnGroups });
+            expect(withGroups([{ title: 'A', children: ['email'] }])).toThrow(
+                "Column group 'A' refers to unknown column 'email'."
+            );
+            expect(
+                withGroups([
+                    { title: 'A', children: ['id'] },
+                    { title: 'B', children: ['id', 'name'] },
+                ])
+            ).toThrow("Column 'id' belongs to more than one column group.");
+        });
+    });
+
+    describe('Field Paths and Computed Columns', () => {
+        const rows = [
+            { id: 1, name: 'A', author: { name: 'Zoe' }, tags: ['news'], price: 2, qty: 5 },
+            { id: 2, name: 'B', author: { name: 'Adam' }, tags: ['sport', 'live'], price: 30, qty: 1 },
+            { id: 3, name: 'C', author: null, tags: [], price: 4, qty: 2 },
+        ];
+        const columnDefs: ColumnDef<TestData>[] = [
+            { key: 'author.name', title: 'Author' },
+            { key: 'tag', field: 'tags[0]' },
+            { key: 'total', valueGetter: (row) => row.price * row.qty },
+        ];
+
+        // Test case for nested values and computed columns sorted and filtered locally
+        it('should show nested and computed values and sort them client-side', async () => {
+            const { url, ...options } = defaultOptions;
+            const instance = new SnapRecords(containerId, {
+                ...options,
+                columns: undefined,
+                columnTitles: undefined,
+                columnDefs,
+                data: rows,
+            });
+            await jest.runAllTimersAsync();
+            const cellTexts = () =>
+                Array.from(instance.container.querySelectorAll('tbody tr')).map((tr) =>
+                    Array.from(tr.querySelectorAll('td')).map((td) => td.textContent)
+                );
+            expect(cellTexts()).toEqual([
+                ['Zoe', 'news', '10'],
+                ['Adam', 'sport', '30'],
+                ['', '', '8'],
+            ]);
+            instance.updateParams({ sortConditions: [['total', OrderDirection.DESC]] });
+            await jest.runAllTimersAsync();
+            expect(instance.getData().map((row) => row.id)).toEqual([2, 1, 3]);
+            instance.search({ 'author.name': 'ada' });
+            await jest.runAllTimersAsync();
+            expect(instance.getData().map((row) => row.id)).toEqual([2]);
+            instance.destroy();
+        });
+
+        // Test case for the resolved paths sent to the server and computed columns sorted per page
+        it('should send resolved field paths and sort computed columns client-side', async () => {
+            const instance = new SnapRecords(containerId, {
+                ...defaultOptions,
+                columns: undefined,
+                columnTitles: undefined,
+                columnDefs,
+            });
+            await jest.runAllTimersAsync();
+            expect(instance.container.querySelector('th[data-col-id="total"] a')).not.toBeNull();
+            (global.fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true,
+                json: () => Promise.resolve({ data: rows, totalRecords: 3 }),
+            });
+            instance.updateParams({
+                sortConditions: [
+                    ['total', OrderDirection.DESC],
+                    ['tag', OrderDirection.ASC],
+                ],
+                filters: { 'author.name': 'Zoe', total: '10' },
+            });
+            await jest.runAllTimersAsync();
+            const lastCall = (global.fetch as jest.Mock).mock.calls.length - 1;
+            const url = new URL((global.fetch as jest.Mock).mock.calls[lastCall][0]);
+            expect(url.searchParams.get('sorting[tags.0]')).toBe('ASC');
+            expect(url.searchParams.get('filtering[author.name]')).toBe('Zoe');
+            expect(url.searchParams.has('sorting[total]')).toBe(false);
+            expect(url.searchParams.has('filtering[total]')).toBe(false);
+            // The server cannot sort by the computed total, so the loaded page is sorted locally
+            expect(instance.getData().map((row) => row.id)).toEqual([2, 1, 3]);
+            instance.destroy();
+        });
+    });
+
     describe('Public API Methods', () => {
         // ... (os testes 'api.search()' e 'api.reset()' devem passar sem alterações) ...
         it('api.search() should apply filters and reload data', async () => {